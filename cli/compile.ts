@@ -0,0 +1,282 @@
+// Headless compiler: routes a circuit onto a topology with the existing mappers
+// and reports the results.
+//
+//   npm run cli -- <circuit.qasm> [options]
+//   npm run cli -- --benchmark qft --qubits 8 --topology heavyhex:qubits=16 --format json
+//
+// Exit codes: 0 on success, 1 when any routed result is invalid (structural
+// validation or equivalence check failed), 2 on usage or input errors.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, extname, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseQasm } from '../compiler/QasmParser';
+import { BENCHMARKS } from '../compiler/Benchmarks';
+import { exportResult, EXPORT_FORMATS } from '../compiler/CircuitExporter';
+import { HardwareTopology, TOPOLOGY_TYPES } from '../hardware/Topology';
+import { Calibration } from '../hardware/Calibration';
+import { OBJECTIVES } from '../metrics/CostModel';
+import { MapperComparison } from '../metrics/MapperComparison';
+import { MAPPERS } from '../optimizer/MapperFactory';
+import { PLACEMENT_STRATEGIES } from '../optimizer/InitialPlacement';
+import { randomSeed } from '../optimizer/SeededRandom';
+import { mapperJob } from '../src/worker/jobs';
+import { createNodePool } from './nodePool';
+
+const OUTPUT_FORMATS = ['table', 'json', 'csv'];
+
+const USAGE = `Usage: npm run cli -- [circuit.qasm] [options]
+
+Circuit (a QASM file or a benchmark):
+  --benchmark <name>      ${Object.keys(BENCHMARKS).join(' | ')}
+  --qubits <n>            benchmark size (default 8)
+
+Hardware:
+  --topology <spec>       <type>[:key=value,...] or a coupling-map .json file
+                          types: ${Object.keys(TOPOLOGY_TYPES).filter(t => t !== 'custom').join(', ')}
+                          e.g. grid2d:rows=3,cols=4  heavyhex:qubits=27  lnn:qubits=8,directed=true
+                          (default: smallest square grid2d that fits the circuit)
+  --calibration <file>    calibration JSON to attach to the topology
+  --error-aware           route along error-weighted paths (needs --calibration)
+
+Mapping:
+  --mappers <list>        comma-separated: ${Object.keys(MAPPERS).join(', ')} (default greedy,lookahead,sabre)
+  --placement <strategy>  ${Object.keys(PLACEMENT_STRATEGIES).join(' | ')} (default identity)
+  --objective <name>      ${Object.keys(OBJECTIVES).join(' | ')} (default weighted)
+  --restore-layout        append SWAPs that return every qubit to its initial position
+                          (counted separately from routing SWAPs)
+  --seed <n>              seed for stochastic mappers and random placement (default: random)
+  --seeds <n>             run stochastic mappers with n consecutive seeds from --seed and
+                          report cost mean/min/std; the lowest-cost run is kept (default 1)
+  --jobs <n>              route with n mappers at a time on worker threads (default 1)
+
+Output:
+  --format <fmt>          ${OUTPUT_FORMATS.join(' | ')} (default table)
+  --emit <file>           write the lowest-cost valid routed circuit to <file>
+  --emit-format <fmt>     ${Object.keys(EXPORT_FORMATS).join(' | ')} (default: from the file extension, else qasm2)
+  --expand-swaps          write SWAPs as CX triples when emitting
+  -h, --help              show this message
+`;
+
+class UsageError extends Error {}
+
+// "grid2d:rows=3,cols=4" -> new HardwareTopology('grid2d', { rows: 3, cols: 4 })
+function buildTopology(spec: string | undefined, nQubits: number) {
+  if (!spec) return HardwareTopology.forQubits('grid2d', nQubits);
+  if (extname(spec) === '.json') return HardwareTopology.fromCouplingMap(readFileSync(spec, 'utf8'));
+
+  const [type, paramList] = spec.split(':');
+  if (!TOPOLOGY_TYPES[type] || type === 'custom') {
+    throw new UsageError(`unknown topology '${type}' (expected one of: ${Object.keys(TOPOLOGY_TYPES).filter(t => t !== 'custom').join(', ')}, or a .json file)`);
+  }
+
+  const params: any = {};
+  (paramList ? paramList.split(',') : []).forEach(pair => {
+    const [key, value] = pair.split('=');
+    if (value === undefined) throw new UsageError(`topology parameter '${pair}' is not key=value`);
+    if (value === 'true' || value === 'false') params[key] = value === 'true';
+    else if (Number.isFinite(Number(value))) params[key] = Number(value);
+    else throw new UsageError(`topology parameter '${key}' must be a number or boolean`);
+  });
+  return HardwareTopology.forQubits(type, nQubits, params);
+}
+
+function loadCircuit(file: string | undefined, values: any) {
+  if (file) {
+    // Includes other than qelib1.inc resolve relative to the circuit file
+    const includeResolver = (include: string) => readFileSync(resolve(dirname(file), include), 'utf8');
+    return { name: file, circuit: parseQasm(readFileSync(file, 'utf8'), { includeResolver }) };
+  }
+
+  const name = values.benchmark || 'qft';
+  if (!BENCHMARKS[name]) throw new UsageError(`unknown benchmark '${name}' (expected one of: ${Object.keys(BENCHMARKS).join(', ')})`);
+  const n = Number(values.qubits || 8);
+  if (!Number.isInteger(n) || n < 2) throw new UsageError(`--qubits must be an integer of at least 2, got '${values.qubits}'`);
+  return { name: `${name}(${n})`, circuit: BENCHMARKS[name](n) };
+}
+
+function formatTable(rows: any[]) {
+  const headers = ['Mapper', 'SWAPs', 'Restore', 'Opt. gap', 'Depth', 'ESP', 'Cost', 'Seed', 'Cost over seeds', 'Valid', 'Equiv.', 'Time (ms)'];
+  const cells = rows.map(r => [
+    r.mapper,
+    String(r.insertedSwaps),
+    r.restorationSwaps === undefined ? '-' : String(r.restorationSwaps),
+    r.optimalityGap ? `${r.optimalityGap.optimal ? '' : '<= '}+${r.optimalityGap.gap}` : '-',
+    String(r.depth),
+    `${(r.esp * 100).toFixed(1)}%`,
+    r.cost.toFixed(1),
+    r.seed === undefined ? '-' : String(r.seed),
+    r.seedStats ? `${r.seedStats.mean.toFixed(1)} ± ${r.seedStats.std.toFixed(1)} (min ${r.seedStats.min.toFixed(1)}, n=${r.seedStats.seeds.length})` : '-',
+    r.validation.valid ? 'yes' : 'NO',
+    r.equivalence.status,
+    String(r.timeMs)
+  ]);
+  const widths = headers.map((h, i) => Math.max(h.length, ...cells.map(c => c[i].length)));
+  const line = (cols: string[]) => cols.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join('  ');
+
+  const out = [line(headers), widths.map(w => '-'.repeat(w)).join('  '), ...cells.map(line)];
+  rows.filter(r => !r.validation.valid).forEach(r => {
+    out.push('', `${r.mapper} is invalid:`, ...r.validation.issues.map((issue: string) => `  ${issue}`));
+  });
+  return out.join('\n') + '\n';
+}
+
+function formatCsv(rows: any[]) {
+  const quote = (v: any) => (/[",\n]/.test(String(v)) ? `"${String(v).replace(/"/g, '""')}"` : String(v));
+  const lines = [['mapper', 'swaps', 'restoration_swaps', 'swap_lower_bound', 'bound_optimal', 'depth', 'esp', 'cost', 'seed', 'cost_mean', 'cost_min', 'cost_std', 'valid', 'equivalence', 'time_ms'].join(',')];
+  rows.forEach(r => {
+    const stats = r.seedStats ? [r.seedStats.mean, r.seedStats.min, r.seedStats.std] : ['', '', ''];
+    lines.push([r.mapper, r.insertedSwaps, r.restorationSwaps ?? '', r.optimalityGap?.bound ?? '', r.optimalityGap?.optimal ?? '', r.depth, r.esp, r.cost, r.seed ?? '', ...stats, r.validation.valid, r.equivalence.status, r.timeMs].map(quote).join(','));
+  });
+  return lines.join('\n') + '\n';
+}
+
+function formatJson(rows: any[], context: any) {
+  return JSON.stringify({
+    ...context,
+    results: rows.map(r => ({
+      mapper: r.mapper,
+      mapperId: r.mapperId,
+      insertedSwaps: r.insertedSwaps,
+      restorationSwaps: r.restorationSwaps,
+      optimalityGap: r.optimalityGap,
+      depth: r.depth,
+      distancePenalty: r.distancePenalty,
+      esp: r.esp,
+      cost: r.cost,
+      seed: r.seed,
+      seedStats: r.seedStats,
+      convergence: r.convergence,
+      valid: r.validation.valid,
+      issues: r.validation.issues,
+      equivalence: r.equivalence,
+      initialLayout: r.initialLayout,
+      finalLayout: r.finalLayout,
+      timeMs: r.timeMs
+    }))
+  }, null, 2) + '\n';
+}
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      benchmark: { type: 'string' },
+      qubits: { type: 'string' },
+      topology: { type: 'string' },
+      calibration: { type: 'string' },
+      'error-aware': { type: 'boolean' },
+      mappers: { type: 'string' },
+      placement: { type: 'string' },
+      objective: { type: 'string' },
+      'restore-layout': { type: 'boolean' },
+      seed: { type: 'string' },
+      seeds: { type: 'string' },
+      jobs: { type: 'string' },
+      format: { type: 'string' },
+      emit: { type: 'string' },
+      'emit-format': { type: 'string' },
+      'expand-swaps': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (positionals.length > 1) throw new UsageError(`expected at most one circuit file, got ${positionals.length}`);
+
+  const format = values.format || 'table';
+  if (!OUTPUT_FORMATS.includes(format)) throw new UsageError(`unknown --format '${format}'`);
+  const objective = values.objective || 'weighted';
+  if (!OBJECTIVES[objective]) throw new UsageError(`unknown --objective '${objective}'`);
+  const placement = values.placement || 'identity';
+  if (!PLACEMENT_STRATEGIES[placement]) throw new UsageError(`unknown --placement '${placement}'`);
+  const mapperKeys = (values.mappers || 'greedy,lookahead,sabre').split(',').map(k => k.trim()).filter(Boolean);
+  mapperKeys.forEach(key => {
+    if (!MAPPERS[key]) throw new UsageError(`unknown mapper '${key}' (expected: ${Object.keys(MAPPERS).join(', ')})`);
+  });
+
+  const seed = values.seed === undefined ? randomSeed() : Number(values.seed);
+  if (!Number.isInteger(seed) || seed < 0) throw new UsageError(`--seed must be a non-negative integer, got '${values.seed}'`);
+  const seedCount = Number(values.seeds || 1);
+  if (!Number.isInteger(seedCount) || seedCount < 1) throw new UsageError(`--seeds must be a positive integer, got '${values.seeds}'`);
+  const jobs = Number(values.jobs || 1);
+  if (!Number.isInteger(jobs) || jobs < 1) throw new UsageError(`--jobs must be a positive integer, got '${values.jobs}'`);
+
+  const { name, circuit } = loadCircuit(positionals[0], values);
+  const hardware = buildTopology(values.topology, circuit.nQubits);
+  if (values.calibration) hardware.setCalibration(Calibration.fromJSON(readFileSync(values.calibration, 'utf8')));
+  hardware.setErrorAware(!!values['error-aware']);
+
+  const config = {
+    mappers: mapperKeys,
+    placement,
+    objective,
+    seed,
+    seeds: seedCount,
+    restoreLayout: !!values['restore-layout']
+  };
+  const comparison = new MapperComparison(circuit, hardware, config);
+  const { costModel } = comparison;
+  let rows: any[];
+  if (jobs > 1) {
+    // One worker job per mapper; rows keep the --mappers order
+    const pool = createNodePool(Math.min(jobs, mapperKeys.length));
+    try {
+      rows = comparison.measureGaps(await Promise.all(mapperKeys.map(key => pool.run(mapperJob(key, circuit, hardware, config)))));
+    } finally {
+      pool.terminate();
+    }
+  } else {
+    rows = comparison.run();
+  }
+
+  const context = {
+    circuit: name,
+    nQubits: circuit.nQubits,
+    gates: circuit.gates.length,
+    topology: values.topology || hardware.type,
+    physicalQubits: Object.keys(hardware.graph).length,
+    placement,
+    objective,
+    seed
+  };
+  if (format === 'json') process.stdout.write(formatJson(rows, context));
+  else if (format === 'csv') process.stdout.write(formatCsv(rows));
+  else {
+    process.stdout.write(`${name} on ${context.topology} (${context.physicalQubits} physical qubits), ${costModel.explain()}, seed ${seed}\n\n`);
+    process.stdout.write(formatTable(rows));
+  }
+
+  const invalid = rows.filter(r => !r.validation.valid || r.equivalence.status === 'fail');
+
+  if (values.emit) {
+    const emitFormat = values['emit-format'] ||
+      Object.keys(EXPORT_FORMATS).find(key => `.${EXPORT_FORMATS[key].extension}` === extname(values.emit as string)) ||
+      'qasm2';
+    if (!EXPORT_FORMATS[emitFormat]) throw new UsageError(`unknown --emit-format '${emitFormat}'`);
+
+    const best = rows.filter(r => !invalid.includes(r)).sort((a, b) => a.cost - b.cost)[0];
+    if (best) {
+      writeFileSync(values.emit, exportResult(best, emitFormat, {
+        expandSwaps: !!values['expand-swaps'],
+        nQubits: Object.keys(hardware.graph).length
+      }));
+      process.stderr.write(`wrote ${best.mapper} result to ${values.emit}\n`);
+    } else {
+      process.stderr.write(`no valid result to write to ${values.emit}\n`);
+    }
+  }
+
+  return invalid.length > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+}, err => {
+  process.stderr.write(`error: ${(err as any)?.message || err}\n`);
+  if (err instanceof UsageError) process.stderr.write(`\n${USAGE}`);
+  process.exitCode = 2;
+});
@@ -0,0 +1,19 @@
+import { Worker } from 'node:worker_threads';
+import { availableParallelism } from 'node:os';
+import { resolve } from 'node:path';
+import { WorkerPool } from '../src/worker/WorkerPool';
+
+// worker_threads pool for headless runs. Loader flags are not passed on to
+// worker threads, so each worker registers tsx before loading poolWorker.ts.
+export function createNodePool(size = availableParallelism()) {
+  const bootstrap = [
+    `require(${JSON.stringify(require.resolve('tsx/cjs/api'))}).register();`,
+    `require(${JSON.stringify(resolve(__dirname, 'poolWorker.ts'))});`
+  ].join('\n');
+  return new WorkerPool((onMessage, onError) => {
+    const worker = new Worker(bootstrap, { eval: true });
+    worker.on('message', onMessage);
+    worker.on('error', onError);
+    return { post: (message: any) => worker.postMessage(message), terminate: () => worker.terminate() };
+  }, size);
+}
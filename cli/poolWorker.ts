@@ -0,0 +1,5 @@
+import { parentPort } from 'node:worker_threads';
+import { handleJob } from '../src/worker/jobs';
+
+// worker_threads entry for the CLI pool; same protocol as the browser worker
+parentPort?.on('message', job => handleJob(job, message => parentPort?.postMessage(message)));
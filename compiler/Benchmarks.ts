@@ -0,0 +1,35 @@
+import { QuantumCircuit } from './QuantumCircuit';
+
+// Benchmark circuit generators shared by the UI and the CLI
+export const BENCHMARKS: Record<string, (n: number) => QuantumCircuit> = {
+  qft: (n: number) => {
+    const circ = new QuantumCircuit(n);
+    for (let i = n - 1; i >= 0; i--) {
+      circ.addGate('h', [i]);
+      for (let j = i - 1; j >= 0; j--) {
+        circ.addGate('cx', [j, i]);
+      }
+    }
+    return circ;
+  },
+  grover: (n: number) => {
+    const circ = new QuantumCircuit(n);
+    for (let i = 0; i < n; i++) circ.addGate('h', [i]);
+    for (let iter = 0; iter < Math.ceil(Math.sqrt(n)); iter++) {
+      circ.addGate('cx', [0, n - 1]);
+      for (let i = 0; i < n - 1; i++) {
+        circ.addGate('h', [i]);
+        if (i < n - 2) circ.addGate('cx', [i, i + 1]);
+      }
+    }
+    return circ;
+  },
+  entangle: (n: number) => {
+    const circ = new QuantumCircuit(n);
+    circ.addGate('h', [0]);
+    for (let i = 0; i < n - 1; i++) {
+      circ.addGate('cx', [i, i + 1]);
+    }
+    return circ;
+  }
+};
@@ -0,0 +1,289 @@
+// Exports a routed mapping result (the `steps` produced by any mapper) as a
+// runnable circuit. All exported qubit indices are physical qubits.
+//
+// JSON format (`format: 'quantum-optimizer/routed-circuit'`, `version: 1`):
+//   mapper         name of the mapper that produced the result
+//   nQubits        number of physical qubits in the register
+//   nLogical       number of logical qubits in the source circuit
+//   initialLayout  initialLayout[logical] = physical qubit before the first op
+//   finalLayout    finalLayout[logical] = physical qubit after the last op
+//   insertedSwaps  number of SWAPs inserted by routing
+//   restorationSwaps  number of SWAPs appended to restore the initial layout
+//                  (0 without layout restoration); both count in the gates
+//   depth          depth reported by the mapper
+//   gates          [{ op, qubits, angles?, clbit?, inserted? }] in execution order;
+//                  `qubits` are physical, `clbit` is the logical qubit measured,
+//                  `inserted` marks gates added by routing
+
+export const EXPORT_FORMATS: Record<string, { label: string; extension: string; mime: string }> = {
+  qasm2: { label: 'OpenQASM 2.0', extension: 'qasm', mime: 'text/plain' },
+  qasm3: { label: 'OpenQASM 3', extension: 'qasm', mime: 'text/plain' },
+  quil: { label: 'Quil', extension: 'quil', mime: 'text/plain' },
+  json: { label: 'JSON', extension: 'json', mime: 'application/json' }
+};
+
+// Two-qubit gates that some targets lack, written over cx and one-qubit gates.
+export const DECOMPOSITIONS: Record<string, (angles: number[], a: number, b: number) => any[]> = {
+  cy: (_, a, b) => [g('sdg', [b]), g('cx', [a, b]), g('s', [b])],
+  ch: (_, a, b) => [
+    g('h', [b]), g('sdg', [b]), g('cx', [a, b]), g('h', [b]), g('t', [b]), g('cx', [a, b]),
+    g('t', [b]), g('h', [b]), g('s', [b]), g('x', [b]), g('s', [a])
+  ],
+  crx: ([l], a, b) => [
+    g('u1', [b], [Math.PI / 2]), g('cx', [a, b]), g('u3', [b], [-l / 2, 0, 0]), g('cx', [a, b]),
+    g('u3', [b], [l / 2, -Math.PI / 2, 0])
+  ],
+  cry: ([l], a, b) => [g('ry', [b], [l / 2]), g('cx', [a, b]), g('ry', [b], [-l / 2]), g('cx', [a, b])],
+  crz: ([l], a, b) => [g('rz', [b], [l / 2]), g('cx', [a, b]), g('rz', [b], [-l / 2]), g('cx', [a, b])],
+  cu3: ([theta, phi, lambda], a, b) => [
+    g('u1', [a], [(lambda + phi) / 2]), g('u1', [b], [(lambda - phi) / 2]), g('cx', [a, b]),
+    g('u3', [b], [-theta / 2, 0, -(phi + lambda) / 2]), g('cx', [a, b]), g('u3', [b], [theta / 2, phi, 0])
+  ],
+  rxx: ([theta], a, b) => [
+    g('u3', [a], [Math.PI / 2, theta, 0]), g('h', [b]), g('cx', [a, b]), g('u1', [b], [-theta]),
+    g('cx', [a, b]), g('h', [b]), g('u2', [a], [-Math.PI, Math.PI - theta])
+  ],
+  rzz: ([theta], a, b) => [g('cx', [a, b]), g('u1', [b], [theta]), g('cx', [a, b])]
+};
+
+function g(op: string, qubits: number[], angles: number[] = []) {
+  return { op, qubits, angles };
+}
+
+const QUIL_GATES: Record<string, string> = {
+  h: 'H', x: 'X', y: 'Y', z: 'Z', s: 'S', t: 'T', id: 'I',
+  sdg: 'DAGGER S', tdg: 'DAGGER T', rx: 'RX', ry: 'RY', rz: 'RZ',
+  u1: 'PHASE', p: 'PHASE', cx: 'CNOT', cz: 'CZ', swap: 'SWAP', cu1: 'CPHASE', cp: 'CPHASE'
+};
+
+const QASM3_NATIVE = new Set([
+  'u1', 'u2', 'u3', 'p', 'id', 'x', 'y', 'z', 'h', 's', 'sdg', 't', 'tdg', 'sx',
+  'rx', 'ry', 'rz', 'cx', 'cy', 'cz', 'ch', 'swap', 'crx', 'cry', 'crz', 'cp', 'cu1'
+]);
+
+export class CircuitExporter {
+  result: any;
+  mapper: string;
+  expandSwaps: boolean;
+  nQubits: number;
+  nLogical: number;
+  initialLayout: number[];
+  finalLayout: number[];
+
+  constructor(result: any, options: any = {}) {
+    this.result = result;
+    this.mapper = options.mapper || result.mapper || 'unknown';
+    this.expandSwaps = options.expandSwaps || false;
+    this.finalLayout = [...(result.finalLayout || [])];
+    this.nLogical = this.finalLayout.length;
+    this.initialLayout = this.computeInitialLayout();
+    this.nQubits = options.nQubits || this.inferQubitCount();
+  }
+
+  computeInitialLayout() {
+    if (this.result.initialLayout) return [...this.result.initialLayout];
+
+    const first = this.result.steps?.[0];
+    if (!first) return [...this.finalLayout];
+
+    // Step layouts are recorded after the op, so undo a leading swap
+    if (!(first.type === 'swap' && first.inserted)) return [...first.layout];
+
+    const [p1, p2] = first.physical;
+    return first.layout.map((p: number) => (p === p1 ? p2 : p === p2 ? p1 : p));
+  }
+
+  inferQubitCount() {
+    let max = Math.max(-1, ...this.initialLayout, ...this.finalLayout);
+    (this.result.steps || []).forEach((step: any) => {
+      (step.physical || step.qubits || []).forEach((q: number) => { max = Math.max(max, q); });
+    });
+    return max + 1;
+  }
+
+  // Flattens the steps into { op, qubits, angles, clbit?, inserted? } entries
+  gates() {
+    const gates: any[] = [];
+
+    (this.result.steps || []).forEach((step: any) => {
+      if (step.params?.condition) {
+        throw new Error(`classically conditioned '${step.type}' gates cannot be exported`);
+      }
+
+      if (step.type === 'swap' && step.inserted) {
+        const [a, b] = step.physical;
+        if (this.expandSwaps && step.directed) {
+          // Only a -> b is native, so the middle CX is reversed with Hadamards
+          [g('cx', [a, b]), g('h', [a]), g('h', [b]), g('cx', [a, b]), g('h', [a]), g('h', [b]), g('cx', [a, b])]
+            .forEach(gate => gates.push({ ...gate, inserted: true }));
+        } else if (this.expandSwaps) {
+          gates.push({ ...g('cx', [a, b]), inserted: true });
+          gates.push({ ...g('cx', [b, a]), inserted: true });
+          gates.push({ ...g('cx', [a, b]), inserted: true });
+        } else {
+          gates.push({ ...g('swap', [a, b]), inserted: true });
+        }
+        return;
+      }
+
+      const gate: any = g(step.type, [...step.qubits], step.params?.angles || []);
+      if (step.type === 'measure') gate.clbit = step.logical[0];
+      if (step.inserted) gate.inserted = true;
+      gates.push(gate);
+    });
+
+    return gates;
+  }
+
+  layoutComment(prefix: string) {
+    const fmt = (layout: number[]) => layout.map((p, l) => `q${l}->${p}`).join(' ');
+    return [
+      `${prefix} mapper: ${this.mapper}`,
+      `${prefix} inserted swaps: ${this.result.insertedSwaps || 0}`,
+      ...(this.result.restorationSwaps !== undefined ? [`${prefix} restoration swaps: ${this.result.restorationSwaps}`] : []),
+      `${prefix} initial layout (logical->physical): ${fmt(this.initialLayout)}`,
+      `${prefix} final layout (logical->physical): ${fmt(this.finalLayout)}`
+    ];
+  }
+
+  hasMeasurements(gates: any[]) {
+    return gates.some(gate => gate.op === 'measure');
+  }
+
+  toQasm2() {
+    const gates = this.gates();
+    const lines = [
+      'OPENQASM 2.0;',
+      'include "qelib1.inc";',
+      ...this.layoutComment('//'),
+      `qreg q[${this.nQubits}];`
+    ];
+    if (this.hasMeasurements(gates)) lines.push(`creg c[${this.nLogical}];`);
+
+    gates.forEach(gate => {
+      const qubits = gate.qubits.map((q: number) => `q[${q}]`).join(', ');
+      if (gate.op === 'measure') lines.push(`measure ${qubits} -> c[${gate.clbit}];`);
+      else if (gate.op === 'reset') lines.push(`reset ${qubits};`);
+      else lines.push(`${gate.op}${formatAngles(gate.angles)} ${qubits};`);
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  toQasm3() {
+    const gates = this.gates().flatMap(gate => (
+      QASM3_NATIVE.has(gate.op) || gate.op === 'measure' || gate.op === 'reset' || gate.qubits.length !== 2
+        ? [gate]
+        : this.decompose(gate)
+    ));
+    const lines = [
+      'OPENQASM 3.0;',
+      'include "stdgates.inc";',
+      ...this.layoutComment('//'),
+      `qubit[${this.nQubits}] q;`
+    ];
+    if (this.hasMeasurements(gates)) lines.push(`bit[${this.nLogical}] c;`);
+
+    gates.forEach(gate => {
+      const qubits = gate.qubits.map((q: number) => `q[${q}]`).join(', ');
+      if (gate.op === 'measure') lines.push(`c[${gate.clbit}] = measure ${qubits};`);
+      else if (gate.op === 'reset') lines.push(`reset ${qubits};`);
+      else if (gate.op === 'sxdg') lines.push(`inv @ sx ${qubits};`);
+      else if (gate.op === 'u' || gate.op === 'u3') lines.push(`U${formatAngles(gate.angles)} ${qubits};`);
+      else lines.push(`${gate.op}${formatAngles(gate.angles)} ${qubits};`);
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  toQuil() {
+    const gates = this.gates().flatMap(gate => (
+      QUIL_GATES[gate.op] || gate.qubits.length !== 2 ? [gate] : this.decompose(gate)
+    ));
+    const lines = this.layoutComment('#');
+    if (this.hasMeasurements(gates)) lines.push(`DECLARE ro BIT[${this.nLogical}]`);
+
+    gates.forEach(gate => {
+      const qubits = gate.qubits.join(' ');
+      const [a, b, c] = gate.angles;
+
+      switch (gate.op) {
+        case 'measure':
+          lines.push(`MEASURE ${qubits} ro[${gate.clbit}]`);
+          break;
+        case 'reset':
+          lines.push(`RESET ${qubits}`);
+          break;
+        case 'u':
+        case 'u3':
+          // U3(theta, phi, lambda) = RZ(phi) RY(theta) RZ(lambda) up to global phase
+          lines.push(`RZ(${formatAngle(c)}) ${qubits}`, `RY(${formatAngle(a)}) ${qubits}`, `RZ(${formatAngle(b)}) ${qubits}`);
+          break;
+        case 'u2':
+          lines.push(`RZ(${formatAngle(b)}) ${qubits}`, `RY(${formatAngle(Math.PI / 2)}) ${qubits}`, `RZ(${formatAngle(a)}) ${qubits}`);
+          break;
+        case 'sx':
+          lines.push(`RX(${formatAngle(Math.PI / 2)}) ${qubits}`);
+          break;
+        case 'sxdg':
+          lines.push(`RX(${formatAngle(-Math.PI / 2)}) ${qubits}`);
+          break;
+        default:
+          if (!QUIL_GATES[gate.op]) throw new Error(`gate '${gate.op}' has no Quil equivalent`);
+          lines.push(`${QUIL_GATES[gate.op]}${formatAngles(gate.angles)} ${qubits}`);
+      }
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  toJson() {
+    const gates = this.gates().map(gate => {
+      const entry: any = { op: gate.op, qubits: gate.qubits };
+      if (gate.angles.length > 0) entry.angles = gate.angles;
+      if (gate.clbit !== undefined) entry.clbit = gate.clbit;
+      if (gate.inserted) entry.inserted = true;
+      return entry;
+    });
+
+    return JSON.stringify({
+      format: 'quantum-optimizer/routed-circuit',
+      version: 1,
+      mapper: this.mapper,
+      nQubits: this.nQubits,
+      nLogical: this.nLogical,
+      initialLayout: this.initialLayout,
+      finalLayout: this.finalLayout,
+      insertedSwaps: this.result.insertedSwaps || 0,
+      restorationSwaps: this.result.restorationSwaps || 0,
+      depth: this.result.depth || 0,
+      gates
+    }, null, 2) + '\n';
+  }
+
+  decompose(gate: any) {
+    const rule = DECOMPOSITIONS[gate.op];
+    if (!rule) throw new Error(`gate '${gate.op}' cannot be decomposed for export`);
+    return rule(gate.angles, gate.qubits[0], gate.qubits[1]).map(sub => ({ ...sub, inserted: gate.inserted }));
+  }
+
+  export(format: string) {
+    if (format === 'qasm2') return this.toQasm2();
+    if (format === 'qasm3') return this.toQasm3();
+    if (format === 'quil') return this.toQuil();
+    if (format === 'json') return this.toJson();
+    throw new Error(`Unknown export format '${format}'`);
+  }
+}
+
+function formatAngle(angle: number) {
+  return Number(angle.toPrecision(15)).toString();
+}
+
+function formatAngles(angles: number[]) {
+  return angles.length > 0 ? `(${angles.map(formatAngle).join(', ')})` : '';
+}
+
+export function exportResult(result: any, format: string, options: any = {}) {
+  return new CircuitExporter(result, options).export(format);
+}
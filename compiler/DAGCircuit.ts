@@ -0,0 +1,123 @@
+// Dependency graph of a circuit: node i is gate i, with an edge from each gate
+// to the next gate acting on any of the same qubits.
+export class DAGCircuit {
+  nQubits: number;
+  gates: any[];
+  predecessors: number[][];
+  successors: number[][];
+  layerCache: number[][] | null;
+
+  constructor(circuit: any) {
+    this.nQubits = circuit.nQubits;
+    this.gates = circuit.gates;
+    this.predecessors = [];
+    this.successors = [];
+    this.layerCache = null;
+    this.buildGraph();
+  }
+
+  // Builds a DAG over routed mapper steps (physical qubits, SWAPs included)
+  static fromSteps(steps: any[], nQubits = 0) {
+    const gates = steps.map(step => ({ type: step.type, qubits: stepQubits(step) }));
+    const maxQubit = Math.max(-1, ...gates.flatMap(gate => gate.qubits));
+    return new DAGCircuit({ nQubits: Math.max(nQubits, maxQubit + 1), gates });
+  }
+
+  buildGraph() {
+    const lastOnWire = new Map<number, number>();
+
+    this.gates.forEach((gate: any, idx: number) => {
+      const preds = new Set<number>();
+      gate.qubits.forEach((q: number) => {
+        if (lastOnWire.has(q)) preds.add(lastOnWire.get(q) as number);
+        lastOnWire.set(q, idx);
+      });
+
+      this.predecessors.push([...preds]);
+      this.successors.push([]);
+      preds.forEach(p => this.successors[p].push(idx));
+    });
+  }
+
+  size() {
+    return this.gates.length;
+  }
+
+  getPredecessors(node: number) {
+    return this.predecessors[node];
+  }
+
+  getSuccessors(node: number) {
+    return this.successors[node];
+  }
+
+  // Gates not yet executed whose predecessors have all been executed
+  frontLayer(executed: Set<number> = new Set()) {
+    const front: number[] = [];
+    for (let i = 0; i < this.gates.length; i++) {
+      if (executed.has(i)) continue;
+      if (this.predecessors[i].every(p => executed.has(p))) front.push(i);
+    }
+    return front;
+  }
+
+  // ASAP schedule: layers[d] holds the gates that run in moment d
+  layers() {
+    if (this.layerCache) return this.layerCache;
+
+    const level = this.levels();
+    const layers: number[][] = [];
+    level.forEach((d, idx) => {
+      if (!layers[d]) layers[d] = [];
+      layers[d].push(idx);
+    });
+
+    this.layerCache = layers;
+    return layers;
+  }
+
+  levels() {
+    // Gates are stored in a valid topological order, so one forward pass suffices
+    const level: number[] = [];
+    this.gates.forEach((_, idx) => {
+      level.push(this.predecessors[idx].reduce((max, p) => Math.max(max, level[p] + 1), 0));
+    });
+    return level;
+  }
+
+  topologicalOrder() {
+    return this.layers().flat();
+  }
+
+  depth() {
+    return this.layers().length;
+  }
+
+  // Longest chain of dependent gates, returned as gate indices in order
+  criticalPath() {
+    if (this.gates.length === 0) return [];
+
+    const level = this.levels();
+    let node = level.indexOf(Math.max(...level));
+    const path = [node];
+
+    while (this.predecessors[node].length > 0) {
+      node = this.predecessors[node].find(p => level[p] === level[node] - 1) as number;
+      path.unshift(node);
+    }
+
+    return path;
+  }
+}
+
+export function stepQubits(step: any): number[] {
+  return step.type === 'swap' && step.physical ? step.physical : step.qubits || [];
+}
+
+// Assigns each routed step its ASAP moment in `step.depth` and returns the circuit depth
+export function scheduleSteps(steps: any[]) {
+  const dag = DAGCircuit.fromSteps(steps);
+  const level = dag.levels();
+  steps.forEach((step, idx) => { step.depth = level[idx]; });
+  return dag.depth();
+}
@@ -0,0 +1,89 @@
+import { DECOMPOSITIONS } from './CircuitExporter';
+
+// Two-qubit gates whose operands can be exchanged without changing the unitary
+export const SYMMETRIC_GATES = new Set(['cz', 'cp', 'cu1', 'rzz', 'rxx', 'swap']);
+
+// Routing cost of running a routed two-qubit gate on physical (control, target)
+export function reversalCost(hardware: any, type: string, control: number, target: number) {
+  if (!hardware.isDirected() || SYMMETRIC_GATES.has(type)) return 0;
+  return hardware.cxDirectionCost(control, target);
+}
+
+// Rewrites routed steps for a topology with directed couplers so every CX runs
+// in a native direction:
+//   - cx against the coupler becomes H⊗H · cx(t, c) · H⊗H (the Hadamards are
+//     emitted as inserted steps)
+//   - symmetric gates have their operands reordered to the native direction
+//   - other controlled gates are expanded over cx first, then fixed the same way
+//   - inserted SWAPs are oriented native-first and, on a coupler with only one
+//     native direction, marked `directed` so the exporter can write the
+//     reversed middle CX
+// Non-inserted steps that replace a gate carry `origin` ({ type, logical } of
+// the gate as routed), shared by every piece of the same gate.
+// Steps are returned unchanged when the topology is undirected.
+export function fixDirections(steps: any[], hardware: any) {
+  if (!hardware.isDirected()) return steps;
+
+  const fixed: any[] = [];
+  const logicalOf = (layout: number[], p: number) => layout.indexOf(p);
+
+  const emit = (type: string, qubits: number[], layout: number[], params: any, origin: any) => {
+    const step: any = {
+      type,
+      qubits,
+      logical: qubits.map(p => logicalOf(layout, p)),
+      params,
+      layout: [...layout],
+      inserted: !origin
+    };
+    if (origin) step.origin = origin;
+    fixed.push(step);
+  };
+
+  const emitCx = (control: number, target: number, layout: number[], params: any, origin: any) => {
+    if (!hardware.isConnected(control, target) || hardware.supportsCx(control, target)) {
+      emit('cx', [control, target], layout, params, origin);
+      return;
+    }
+    emit('h', [control], layout, {}, null);
+    emit('h', [target], layout, {}, null);
+    emit('cx', [target, control], layout, params, origin);
+    emit('h', [control], layout, {}, null);
+    emit('h', [target], layout, {}, null);
+  };
+
+  steps.forEach(step => {
+    if (step.type === 'swap' && step.inserted) {
+      // Native direction first; `directed` only where the reverse CX is not native
+      const [a, b] = step.physical;
+      const swap = hardware.supportsCx(a, b) ? step : { ...step, physical: [b, a], logical: [step.logical[1], step.logical[0]] };
+      const [c, t] = swap.physical;
+      fixed.push(hardware.supportsCx(t, c) ? swap : { ...swap, directed: true });
+      return;
+    }
+
+    const qubits: number[] = step.qubits || [];
+    if (qubits.length !== 2 || !hardware.isConnected(qubits[0], qubits[1]) || hardware.supportsCx(qubits[0], qubits[1])) {
+      fixed.push(step);
+      return;
+    }
+
+    const [a, b] = qubits;
+    const origin = { type: step.type, logical: step.logical };
+    if (step.type === 'cx') {
+      emitCx(a, b, step.layout, step.params, origin);
+    } else if (SYMMETRIC_GATES.has(step.type)) {
+      fixed.push({ ...step, qubits: [b, a], logical: [step.logical[1], step.logical[0]], origin });
+    } else if (DECOMPOSITIONS[step.type]) {
+      if (step.params?.condition) throw new Error(`classically conditioned '${step.type}' gates cannot be redirected`);
+      DECOMPOSITIONS[step.type](step.params?.angles || [], a, b).forEach(gate => {
+        if (gate.op === 'cx') emitCx(gate.qubits[0], gate.qubits[1], step.layout, {}, origin);
+        else emit(gate.op, gate.qubits, step.layout, gate.angles.length > 0 ? { angles: gate.angles } : {}, origin);
+      });
+    } else {
+      throw new Error(`gate '${step.type}' cannot be redirected onto coupler ${b}->${a}`);
+    }
+  });
+
+  return fixed;
+}
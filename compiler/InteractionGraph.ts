@@ -41,6 +41,7 @@ export class InteractionGraph {
       const gate = this.circuit.gates[i];
       if (gate.qubits.length === 2) {
         upcoming.push({
+          type: gate.type,
           qubits: gate.qubits,
           distance: i - currentGateIdx,
           weight: 1 / (1 + (i - currentGateIdx))
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BENCHMARKS } from './Benchmarks';
+import { HardwareTopology } from '../hardware/Topology';
+import { GreedyMapper } from '../optimizer/GreedyMapper';
+import { restoreLayout } from './LayoutRestorer';
+import { exportResult } from './CircuitExporter';
+
+const route = () => {
+  const hardware = HardwareTopology.forQubits('lnn', 5);
+  return { hardware, routed: new GreedyMapper(BENCHMARKS.qft(5), hardware).map() };
+};
+
+test('restoreLayout leaves the routed result untouched', () => {
+  const { hardware, routed } = route();
+  // Steps as a mapper that schedules nothing would leave them
+  routed.steps.forEach((step: any) => { delete step.depth; });
+  const before = JSON.stringify(routed);
+  const restored = restoreLayout(routed, hardware);
+  assert.ok(restored.restorationSwaps > 0);
+  assert.deepEqual(restored.finalLayout, routed.initialLayout);
+  assert.equal(JSON.stringify(routed), before);
+});
+
+test('exports report restoration SWAPs next to routing SWAPs', () => {
+  const { hardware, routed } = route();
+  const restored = restoreLayout(routed, hardware);
+  assert.match(exportResult(restored, 'qasm2'), new RegExp(`// restoration swaps: ${restored.restorationSwaps}\\n`));
+  const json = JSON.parse(exportResult(restored, 'json'));
+  assert.equal(json.insertedSwaps, routed.insertedSwaps);
+  assert.equal(json.restorationSwaps, restored.restorationSwaps);
+  assert.equal(JSON.parse(exportResult(routed, 'json')).restorationSwaps, 0);
+});
@@ -0,0 +1,133 @@
+import { scheduleSteps } from './DAGCircuit';
+import { fixDirections } from './DirectionFixer';
+
+// Approximate token swapping: SWAPs on coupled physical qubits that move
+// logical q from layout[q] to target[q]. Physical qubits holding no logical
+// qubit are blanks that may end anywhere.
+//   1. happy swaps: while some SWAP brings the tokens it moves closer to their
+//      targets in total, apply the best one
+//   2. the rest is solved exactly on a spanning tree of each connected
+//      component: repeatedly take a leaf of the remaining tree, bring the token
+//      that belongs there (or a blank) along the tree, and drop the leaf
+export function tokenSwaps(hardware: any, layout: number[], target: number[]) {
+  const swaps: number[][] = [];
+  const tokenAt = new Map<number, number>();
+  layout.forEach((p, q) => tokenAt.set(p, q));
+  const goalOf = (p: number) => {
+    const q = tokenAt.get(p);
+    return q === undefined ? undefined : target[q];
+  };
+
+  const swap = (a: number, b: number) => {
+    const qa = tokenAt.get(a);
+    const qb = tokenAt.get(b);
+    tokenAt.delete(a);
+    tokenAt.delete(b);
+    if (qa !== undefined) tokenAt.set(b, qa);
+    if (qb !== undefined) tokenAt.set(a, qb);
+    swaps.push([a, b]);
+  };
+
+  const nodes = Object.keys(hardware.graph).map(q => parseInt(q, 10));
+  const edges: number[][] = [];
+  nodes.forEach(a => hardware.graph[a].forEach((b: number) => { if (a < b) edges.push([a, b]); }));
+
+  // Phase 1: happy swaps
+  const gain = (from: number, to: number) => {
+    const goal = goalOf(from);
+    return goal === undefined ? 0 : hardware.distance(from, goal) - hardware.distance(to, goal);
+  };
+  while (true) {
+    let best: number[] | null = null;
+    let bestGain = 0;
+    edges.forEach(([a, b]) => {
+      const g = gain(a, b) + gain(b, a);
+      if (g > bestGain) {
+        best = [a, b];
+        bestGain = g;
+      }
+    });
+    if (!best) break;
+    swap(best[0], best[1]);
+  }
+
+  // Phase 2: leaves of a BFS spanning tree per component
+  const parentOf = new Map<number, number>();
+  const children = new Map<number, number[]>();
+  const order: number[] = [];
+  nodes.forEach(root => {
+    if (parentOf.has(root)) return;
+    parentOf.set(root, -1);
+    const queue = [root];
+    while (queue.length > 0) {
+      const node = queue.shift() as number;
+      order.push(node);
+      children.set(node, []);
+      hardware.graph[node].forEach((next: number) => {
+        if (parentOf.has(next)) return;
+        parentOf.set(next, node);
+        (children.get(node) as number[]).push(next);
+        queue.push(next);
+      });
+    }
+  });
+
+  const removed = new Set<number>();
+  const treeNeighbours = (node: number) => [
+    ...(children.get(node) as number[]),
+    ...(parentOf.get(node) !== -1 ? [parentOf.get(node) as number] : [])
+  ].filter(n => !removed.has(n));
+
+  // Path inside the remaining tree from the nearest node matching `wanted` to `leaf`
+  const pathTo = (leaf: number, wanted: (p: number) => boolean) => {
+    const prev = new Map<number, number>([[leaf, -1]]);
+    const queue = [leaf];
+    while (queue.length > 0) {
+      const node = queue.shift() as number;
+      if (wanted(node)) {
+        const path = [node];
+        while (path[path.length - 1] !== leaf) path.push(prev.get(path[path.length - 1]) as number);
+        return path;
+      }
+      treeNeighbours(node).forEach(next => {
+        if (prev.has(next)) return;
+        prev.set(next, node);
+        queue.push(next);
+      });
+    }
+    return [leaf];
+  };
+
+  // BFS order reversed: every node comes after its children, so it is a leaf when reached
+  [...order].reverse().forEach(leaf => {
+    const owner = target.indexOf(leaf);
+    const path = owner !== -1 ? pathTo(leaf, p => tokenAt.get(p) === owner) : pathTo(leaf, p => !tokenAt.has(p));
+    for (let i = 0; i < path.length - 1; i++) swap(path[i], path[i + 1]);
+    removed.add(leaf);
+  });
+
+  return swaps;
+}
+
+// Appends a swap network that returns every logical qubit to its place in the
+// initial layout. The SWAPs are marked `restore` and counted in
+// `restorationSwaps`, apart from the routing SWAPs in `insertedSwaps`.
+export function restoreLayout(result: any, hardware: any) {
+  const layout = [...result.finalLayout];
+  const swapSteps = tokenSwaps(hardware, layout, result.initialLayout).map(([p1, p2]) => {
+    const logical = [layout.indexOf(p1), layout.indexOf(p2)];
+    if (logical[0] !== -1) layout[logical[0]] = p2;
+    if (logical[1] !== -1) layout[logical[1]] = p1;
+    return { type: 'swap', physical: [p1, p2], logical, layout: [...layout], inserted: true, restore: true };
+  });
+
+  // Copies: scheduling rewrites `depth`, and the routed result keeps its own steps
+  const steps = [...result.steps.map((step: any) => ({ ...step })), ...fixDirections(swapSteps, hardware)];
+  return {
+    ...result,
+    steps,
+    depth: scheduleSteps(steps),
+    finalLayout: layout,
+    restorationSwaps: swapSteps.length
+  };
+}
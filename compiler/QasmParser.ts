@@ -0,0 +1,604 @@
+import { QuantumCircuit } from './QuantumCircuit';
+
+// Standard OpenQASM 2.0 gate library. Gates listed in NATIVE_GATES are kept as
+// single circuit gates; everything else is expanded through its definition.
+const QELIB1 = `
+gate u3(theta,phi,lambda) q { U(theta,phi,lambda) q; }
+gate u2(phi,lambda) q { U(pi/2,phi,lambda) q; }
+gate u1(lambda) q { U(0,0,lambda) q; }
+gate cx c,t { CX c,t; }
+gate id a { U(0,0,0) a; }
+gate u0(gamma) q { U(0,0,0) q; }
+gate u(theta,phi,lambda) q { U(theta,phi,lambda) q; }
+gate p(lambda) q { U(0,0,lambda) q; }
+gate x a { u3(pi,0,pi) a; }
+gate y a { u3(pi,pi/2,pi/2) a; }
+gate z a { u1(pi) a; }
+gate h a { u2(0,pi) a; }
+gate s a { u1(pi/2) a; }
+gate sdg a { u1(-pi/2) a; }
+gate t a { u1(pi/4) a; }
+gate tdg a { u1(-pi/4) a; }
+gate sx a { sdg a; h a; sdg a; }
+gate sxdg a { s a; h a; s a; }
+gate rx(theta) a { u3(theta,-pi/2,pi/2) a; }
+gate ry(theta) a { u3(theta,0,0) a; }
+gate rz(phi) a { u1(phi) a; }
+gate cz a,b { h b; cx a,b; h b; }
+gate cy a,b { sdg b; cx a,b; s b; }
+gate swap a,b { cx a,b; cx b,a; cx a,b; }
+gate ch a,b { h b; sdg b; cx a,b; h b; t b; cx a,b; t b; h b; s b; x b; s a; }
+gate ccx a,b,c { h c; cx b,c; tdg c; cx a,c; t c; cx b,c; tdg c; cx a,c; t b; t c; h c; cx a,b; t a; tdg b; cx a,b; }
+gate cswap a,b,c { cx c,b; ccx a,b,c; cx c,b; }
+gate crx(lambda) a,b { u1(pi/2) b; cx a,b; u3(-lambda/2,0,0) b; cx a,b; u3(lambda/2,-pi/2,0) b; }
+gate cry(lambda) a,b { ry(lambda/2) b; cx a,b; ry(-lambda/2) b; cx a,b; }
+gate crz(lambda) a,b { rz(lambda/2) b; cx a,b; rz(-lambda/2) b; cx a,b; }
+gate cu1(lambda) a,b { u1(lambda/2) a; cx a,b; u1(-lambda/2) b; cx a,b; u1(lambda/2) b; }
+gate cp(lambda) a,b { p(lambda/2) a; cx a,b; p(-lambda/2) b; cx a,b; p(lambda/2) b; }
+gate cu3(theta,phi,lambda) c,t { u1((lambda+phi)/2) c; u1((lambda-phi)/2) t; cx c,t; u3(-theta/2,0,-(phi+lambda)/2) t; cx c,t; u3(theta/2,phi,0) t; }
+gate rxx(theta) a,b { u3(pi/2,theta,0) a; h b; cx a,b; u1(-theta) b; cx a,b; h b; u2(-pi,pi-theta) a; }
+gate rzz(theta) a,b { cx a,b; u1(theta) b; cx a,b; }
+gate rccx a,b,c { u2(0,pi) c; u1(pi/4) c; cx b,c; u1(-pi/4) c; cx a,c; u1(pi/4) c; cx b,c; u1(-pi/4) c; u2(0,pi) c; }
+`;
+
+const NATIVE_GATES = new Set([
+  'u3', 'u2', 'u1', 'u', 'p', 'id', 'x', 'y', 'z', 'h', 's', 'sdg', 't', 'tdg', 'sx', 'sxdg',
+  'rx', 'ry', 'rz', 'cx', 'cz', 'cy', 'swap', 'ch', 'crx', 'cry', 'crz', 'cu1', 'cp', 'cu3', 'rxx', 'rzz'
+]);
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  exp: Math.exp,
+  ln: Math.log,
+  sqrt: Math.sqrt
+};
+
+export class QasmParseError extends Error {
+  line: number;
+  column: number;
+  source: string;
+
+  constructor(message: string, line: number, column: number, source = 'main') {
+    super(`${source}:${line}:${column}: ${message}`);
+    this.name = 'QasmParseError';
+    this.line = line;
+    this.column = column;
+    this.source = source;
+  }
+}
+
+interface Token {
+  kind: 'id' | 'number' | 'string' | 'symbol' | 'eof';
+  value: string;
+  line: number;
+  column: number;
+}
+
+function tokenize(text: string, source: string) {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (count: number) => {
+    for (let k = 0; k < count; k++) {
+      if (text[i] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      i++;
+    }
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (/\s/.test(ch)) {
+      advance(1);
+    } else if (text.startsWith('//', i)) {
+      while (i < text.length && text[i] !== '\n') advance(1);
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      if (end === -1) throw new QasmParseError('unterminated block comment', line, column, source);
+      advance(end + 2 - i);
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i)) as RegExpExecArray;
+      tokens.push({ kind: 'id', value: match[0], line, column });
+      advance(match[0].length);
+    } else if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(text.slice(i));
+      if (!match) throw new QasmParseError(`unexpected character '${ch}'`, line, column, source);
+      tokens.push({ kind: 'number', value: match[0], line, column });
+      advance(match[0].length);
+    } else if (ch === '"') {
+      const end = text.indexOf('"', i + 1);
+      if (end === -1) throw new QasmParseError('unterminated string', line, column, source);
+      tokens.push({ kind: 'string', value: text.slice(i + 1, end), line, column });
+      advance(end + 1 - i);
+    } else if (text.startsWith('->', i) || text.startsWith('==', i)) {
+      tokens.push({ kind: 'symbol', value: text.slice(i, i + 2), line, column });
+      advance(2);
+    } else if ('[](){};,+-*/^'.includes(ch)) {
+      tokens.push({ kind: 'symbol', value: ch, line, column });
+      advance(1);
+    } else {
+      throw new QasmParseError(`unexpected character '${ch}'`, line, column, source);
+    }
+  }
+
+  tokens.push({ kind: 'eof', value: '', line, column });
+  return tokens;
+}
+
+export class QasmParser {
+  includeResolver: (name: string) => string;
+  qregs: Map<string, { offset: number; size: number }>;
+  cregs: Map<string, { size: number }>;
+  gateDefs: Map<string, any>;
+  pendingGates: any[];
+  nQubits: number;
+  includeStack: string[];
+  tokens: Token[];
+  pos: number;
+  source: string;
+
+  constructor(options: any = {}) {
+    this.includeResolver = options.includeResolver || null;
+    this.reset();
+  }
+
+  reset() {
+    this.qregs = new Map();
+    this.cregs = new Map();
+    this.gateDefs = new Map();
+    this.pendingGates = [];
+    this.nQubits = 0;
+    this.includeStack = [];
+  }
+
+  parse(text: string) {
+    this.reset();
+    this.parseSource(text, 'main', true);
+
+    const circuit = new QuantumCircuit(this.nQubits);
+    this.pendingGates.forEach(g => circuit.addGate(g.type, g.qubits, g.params));
+    return circuit;
+  }
+
+  parseSource(text: string, source: string, requireHeader: boolean) {
+    const saved = { tokens: this.tokens, pos: this.pos, source: this.source };
+    this.tokens = tokenize(text, source);
+    this.pos = 0;
+    this.source = source;
+
+    if (requireHeader) {
+      this.expectValue('OPENQASM');
+      const version = this.expectKind('number');
+      if (!/^2(\.0)?$/.test(version.value)) {
+        throw this.error(`unsupported OpenQASM version ${version.value}`, version);
+      }
+      this.expectValue(';');
+    }
+
+    while (this.peek().kind !== 'eof') {
+      this.parseStatement();
+    }
+
+    this.tokens = saved.tokens;
+    this.pos = saved.pos;
+    this.source = saved.source;
+  }
+
+  // --- token helpers ---
+
+  peek() {
+    return this.tokens[this.pos];
+  }
+
+  next() {
+    return this.tokens[this.pos++];
+  }
+
+  accept(value: string) {
+    if (this.peek().value === value && this.peek().kind !== 'string') {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  expectValue(value: string) {
+    const tok = this.next();
+    if (tok.value !== value || tok.kind === 'string') {
+      throw this.error(`expected '${value}' but found ${this.describe(tok)}`, tok);
+    }
+    return tok;
+  }
+
+  expectKind(kind: Token['kind']) {
+    const tok = this.next();
+    if (tok.kind !== kind) {
+      throw this.error(`expected ${kind} but found ${this.describe(tok)}`, tok);
+    }
+    return tok;
+  }
+
+  describe(tok: Token) {
+    return tok.kind === 'eof' ? 'end of input' : `'${tok.value}'`;
+  }
+
+  error(message: string, tok: Token) {
+    return new QasmParseError(message, tok.line, tok.column, this.source);
+  }
+
+  // --- statements ---
+
+  parseStatement() {
+    const tok = this.peek();
+
+    if (tok.kind !== 'id') throw this.error(`unexpected ${this.describe(tok)}`, tok);
+
+    switch (tok.value) {
+      case 'include':
+        return this.parseInclude();
+      case 'qreg':
+      case 'creg':
+        return this.parseRegister();
+      case 'gate':
+      case 'opaque':
+        return this.parseGateDefinition();
+      case 'if':
+        return this.parseConditional();
+      default:
+        return this.parseOperation(null);
+    }
+  }
+
+  parseInclude() {
+    this.next();
+    const nameTok = this.expectKind('string');
+    this.expectValue(';');
+
+    const name = nameTok.value;
+    if (this.includeStack.includes(name)) {
+      throw this.error(`recursive include of "${name}"`, nameTok);
+    }
+
+    let text: string;
+    if (name === 'qelib1.inc') {
+      text = QELIB1;
+    } else if (this.includeResolver) {
+      try {
+        text = this.includeResolver(name);
+      } catch (err) {
+        throw this.error(`cannot include "${name}": ${(err as any)?.message || err}`, nameTok);
+      }
+    } else {
+      throw this.error(`cannot include "${name}": no include resolver configured`, nameTok);
+    }
+
+    this.includeStack.push(name);
+    this.parseSource(text, name, false);
+    this.includeStack.pop();
+  }
+
+  parseRegister() {
+    const kind = this.next().value;
+    const nameTok = this.expectKind('id');
+    this.expectValue('[');
+    const sizeTok = this.expectKind('number');
+    this.expectValue(']');
+    this.expectValue(';');
+
+    const size = parseInt(sizeTok.value, 10);
+    if (!Number.isInteger(Number(sizeTok.value)) || size <= 0) {
+      throw this.error(`register size must be a positive integer`, sizeTok);
+    }
+    if (this.qregs.has(nameTok.value) || this.cregs.has(nameTok.value)) {
+      throw this.error(`register '${nameTok.value}' already declared`, nameTok);
+    }
+
+    if (kind === 'qreg') {
+      this.qregs.set(nameTok.value, { offset: this.nQubits, size });
+      this.nQubits += size;
+    } else {
+      this.cregs.set(nameTok.value, { size });
+    }
+  }
+
+  parseGateDefinition() {
+    const opaque = this.next().value === 'opaque';
+    const nameTok = this.expectKind('id');
+    const params: string[] = [];
+    const args: string[] = [];
+
+    if (this.accept('(')) {
+      if (!this.accept(')')) {
+        do params.push(this.expectKind('id').value); while (this.accept(','));
+        this.expectValue(')');
+      }
+    }
+    do args.push(this.expectKind('id').value); while (this.accept(','));
+
+    const body: any[] = [];
+    if (opaque) {
+      this.expectValue(';');
+    } else {
+      this.expectValue('{');
+      while (!this.accept('}')) {
+        const opTok = this.peek();
+        if (opTok.kind === 'eof') throw this.error(`unterminated body of gate '${nameTok.value}'`, opTok);
+        body.push(this.parseGateBodyOperation(params, args));
+      }
+    }
+
+    this.gateDefs.set(nameTok.value, {
+      name: nameTok.value,
+      params,
+      args,
+      body,
+      opaque,
+      library: this.source === 'qelib1.inc'
+    });
+  }
+
+  parseGateBodyOperation(params: string[], args: string[]) {
+    const tok = this.expectKind('id');
+
+    if (tok.value === 'barrier') {
+      do this.expectKind('id'); while (this.accept(','));
+      this.expectValue(';');
+      return { barrier: true };
+    }
+
+    const exprs: any[] = [];
+    if (this.accept('(')) {
+      if (!this.accept(')')) {
+        do exprs.push(this.parseExpression(params)); while (this.accept(','));
+        this.expectValue(')');
+      }
+    }
+
+    const operands: string[] = [];
+    do {
+      const arg = this.expectKind('id');
+      if (!args.includes(arg.value)) throw this.error(`unknown gate argument '${arg.value}'`, arg);
+      operands.push(arg.value);
+    } while (this.accept(','));
+    this.expectValue(';');
+
+    this.checkGateCall(tok, exprs.length, operands.length);
+    return { name: tok.value, exprs, operands };
+  }
+
+  parseConditional() {
+    this.next();
+    this.expectValue('(');
+    const regTok = this.expectKind('id');
+    if (!this.cregs.has(regTok.value)) throw this.error(`unknown classical register '${regTok.value}'`, regTok);
+    this.expectValue('==');
+    const valueTok = this.expectKind('number');
+    this.expectValue(')');
+    this.parseOperation({ creg: regTok.value, value: parseInt(valueTok.value, 10) });
+  }
+
+  parseOperation(condition: any) {
+    const tok = this.expectKind('id');
+
+    if (tok.value === 'barrier') {
+      // Barriers only constrain scheduling; they are not routed.
+      do this.parseQubitArgument(); while (this.accept(','));
+      this.expectValue(';');
+      return;
+    }
+
+    if (tok.value === 'measure') {
+      const qubits = this.parseQubitArgument();
+      this.expectValue('->');
+      const clbits = this.parseClassicalArgument();
+      this.expectValue(';');
+      if (qubits.length !== clbits.length) {
+        throw this.error('measure register sizes do not match', tok);
+      }
+      qubits.forEach((q, i) => this.emit('measure', [q], { clbit: clbits[i], condition }));
+      return;
+    }
+
+    if (tok.value === 'reset') {
+      const qubits = this.parseQubitArgument();
+      this.expectValue(';');
+      qubits.forEach(q => this.emit('reset', [q], { condition }));
+      return;
+    }
+
+    const angles: number[] = [];
+    if (this.accept('(')) {
+      if (!this.accept(')')) {
+        do angles.push(this.evaluate(this.parseExpression([]), {})); while (this.accept(','));
+        this.expectValue(')');
+      }
+    }
+
+    const operands: number[][] = [];
+    do operands.push(this.parseQubitArgument()); while (this.accept(','));
+    this.expectValue(';');
+
+    this.checkGateCall(tok, angles.length, operands.length);
+
+    // Register broadcasting: full registers must agree in size, single qubits repeat.
+    const width = Math.max(...operands.map(o => o.length));
+    operands.forEach(o => {
+      if (o.length !== 1 && o.length !== width) throw this.error('register sizes do not match', tok);
+    });
+
+    for (let i = 0; i < width; i++) {
+      const qubits = operands.map(o => (o.length === 1 ? o[0] : o[i]));
+      if (new Set(qubits).size !== qubits.length) {
+        throw this.error(`duplicate qubit arguments to '${tok.value}'`, tok);
+      }
+      this.applyGate(tok.value, angles, qubits, condition, tok);
+    }
+  }
+
+  checkGateCall(tok: Token, nParams: number, nArgs: number) {
+    if (tok.value === 'U') {
+      if (nParams !== 3 || nArgs !== 1) throw this.error(`'U' expects 3 parameters and 1 qubit`, tok);
+      return;
+    }
+    if (tok.value === 'CX') {
+      if (nParams !== 0 || nArgs !== 2) throw this.error(`'CX' expects 2 qubits`, tok);
+      return;
+    }
+
+    const def = this.gateDefs.get(tok.value);
+    if (!def) throw this.error(`unknown gate '${tok.value}'`, tok);
+    if (def.params.length !== nParams) {
+      throw this.error(`gate '${tok.value}' expects ${def.params.length} parameter(s), got ${nParams}`, tok);
+    }
+    if (def.args.length !== nArgs) {
+      throw this.error(`gate '${tok.value}' expects ${def.args.length} qubit(s), got ${nArgs}`, tok);
+    }
+  }
+
+  applyGate(name: string, angles: number[], qubits: number[], condition: any, tok: Token) {
+    if (name === 'U') return this.emit('u3', qubits, this.gateParams(angles, condition));
+    if (name === 'CX') return this.emit('cx', qubits, this.gateParams([], condition));
+
+    const def = this.gateDefs.get(name);
+    if (def.opaque || (def.library && NATIVE_GATES.has(name))) {
+      return this.emit(name, qubits, this.gateParams(angles, condition));
+    }
+
+    const env: Record<string, number> = {};
+    def.params.forEach((p: string, i: number) => { env[p] = angles[i]; });
+    const binding: Record<string, number> = {};
+    def.args.forEach((a: string, i: number) => { binding[a] = qubits[i]; });
+
+    def.body.forEach((op: any) => {
+      if (op.barrier) return;
+      const values = op.exprs.map((e: any) => this.evaluate(e, env));
+      this.applyGate(op.name, values, op.operands.map((a: string) => binding[a]), condition, tok);
+    });
+  }
+
+  gateParams(angles: number[], condition: any) {
+    const params: any = {};
+    if (angles.length > 0) params.angles = angles;
+    if (condition) params.condition = condition;
+    return params;
+  }
+
+  emit(type: string, qubits: number[], params: any) {
+    if (params.condition === null) delete params.condition;
+    this.pendingGates.push({ type, qubits, params });
+  }
+
+  parseQubitArgument() {
+    return this.parseRegisterArgument(this.qregs, 'quantum').map(({ reg, index }) => reg.offset + index);
+  }
+
+  parseClassicalArgument() {
+    return this.parseRegisterArgument(this.cregs, 'classical').map(({ name, index }) => ({ creg: name, index }));
+  }
+
+  parseRegisterArgument(registers: Map<string, any>, kind: string) {
+    const nameTok = this.expectKind('id');
+    const reg = registers.get(nameTok.value);
+    if (!reg) throw this.error(`unknown ${kind} register '${nameTok.value}'`, nameTok);
+
+    if (this.accept('[')) {
+      const indexTok = this.expectKind('number');
+      this.expectValue(']');
+      const index = Number(indexTok.value);
+      if (!Number.isInteger(index) || index < 0 || index >= reg.size) {
+        throw this.error(`index ${indexTok.value} out of range for register '${nameTok.value}'`, indexTok);
+      }
+      return [{ name: nameTok.value, reg, index }];
+    }
+
+    return Array.from({ length: reg.size }, (_, index) => ({ name: nameTok.value, reg, index }));
+  }
+
+  // --- parameter expressions ---
+
+  parseExpression(params: string[]): any {
+    let left = this.parseTerm(params);
+    while (this.peek().value === '+' || this.peek().value === '-') {
+      const op = this.next().value;
+      left = { op, left, right: this.parseTerm(params) };
+    }
+    return left;
+  }
+
+  parseTerm(params: string[]): any {
+    let left = this.parseUnary(params);
+    while (this.peek().value === '*' || this.peek().value === '/') {
+      const op = this.next().value;
+      left = { op, left, right: this.parseUnary(params) };
+    }
+    return left;
+  }
+
+  parseUnary(params: string[]): any {
+    if (this.accept('-')) return { op: 'neg', arg: this.parseUnary(params) };
+    if (this.accept('+')) return this.parseUnary(params);
+    return this.parsePower(params);
+  }
+
+  parsePower(params: string[]): any {
+    const base = this.parsePrimary(params);
+    if (this.accept('^')) return { op: '^', left: base, right: this.parseUnary(params) };
+    return base;
+  }
+
+  parsePrimary(params: string[]): any {
+    const tok = this.next();
+
+    if (tok.kind === 'number') return { value: Number(tok.value) };
+
+    if (tok.value === '(' && tok.kind === 'symbol') {
+      const inner = this.parseExpression(params);
+      this.expectValue(')');
+      return inner;
+    }
+
+    if (tok.kind === 'id') {
+      if (tok.value === 'pi') return { value: Math.PI };
+      if (FUNCTIONS[tok.value]) {
+        this.expectValue('(');
+        const arg = this.parseExpression(params);
+        this.expectValue(')');
+        return { fn: tok.value, arg };
+      }
+      if (params.includes(tok.value)) return { name: tok.value };
+      throw this.error(`unknown identifier '${tok.value}' in expression`, tok);
+    }
+
+    throw this.error(`expected expression but found ${this.describe(tok)}`, tok);
+  }
+
+  evaluate(expr: any, env: Record<string, number>): number {
+    if ('value' in expr) return expr.value;
+    if ('name' in expr) return env[expr.name];
+    if ('fn' in expr) return FUNCTIONS[expr.fn](this.evaluate(expr.arg, env));
+    if (expr.op === 'neg') return -this.evaluate(expr.arg, env);
+
+    const a = this.evaluate(expr.left, env);
+    const b = this.evaluate(expr.right, env);
+    switch (expr.op) {
+      case '+': return a + b;
+      case '-': return a - b;
+      case '*': return a * b;
+      case '/': return a / b;
+      default: return Math.pow(a, b);
+    }
+  }
+}
+
+export function parseQasm(text: string, options: any = {}) {
+  return new QasmParser(options).parse(text);
+}
@@ -0,0 +1,14 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Calibration } from './Calibration';
+
+test('a zero T1 or T2 is rejected', () => {
+  assert.throws(() => new Calibration({ qubits: [{ id: 0, t1: 0 }] }), /qubit 0 has invalid t1/);
+  assert.throws(() => new Calibration({ qubits: [{ id: 0, t2: 0 }] }), /qubit 0 has invalid t2/);
+});
+
+test('qubit error rates must lie in [0, 1)', () => {
+  assert.throws(() => new Calibration({ qubits: [{ id: 1, readoutError: 1 }] }), /invalid readoutError/);
+  assert.throws(() => new Calibration({ qubits: [{ id: 1, singleQubitError: -0.1 }] }), /invalid singleQubitError/);
+  assert.equal(new Calibration({ qubits: [{ id: 1, readoutError: 0, t1: 50 }] }).qubit(1).t1, 50);
+});
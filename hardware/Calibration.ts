@@ -0,0 +1,113 @@
+// Device calibration data attached to a HardwareTopology.
+//
+// JSON format (times in microseconds, errors as probabilities):
+// {
+//   "qubits":   [{ "id": 0, "readoutError": 0.02, "singleQubitError": 0.0004, "t1": 110, "t2": 90 }, ...],
+//   "couplers": [{ "qubits": [0, 1], "error": 0.009 }, ...],
+//   "gateDurations": { "singleQubit": 0.035, "twoQubit": 0.3, "readout": 0.8 }
+// }
+// Missing entries fall back to DEFAULT_QUBIT / DEFAULT_COUPLER_ERROR.
+
+export const DEFAULT_QUBIT = {
+  readoutError: 0.02,
+  singleQubitError: 0.0005,
+  t1: 100,
+  t2: 80
+};
+
+export const DEFAULT_COUPLER_ERROR = 0.01;
+
+export const DEFAULT_GATE_DURATIONS = {
+  singleQubit: 0.035,
+  twoQubit: 0.3,
+  readout: 0.8
+};
+
+export class Calibration {
+  qubits: Map<number, any>;
+  couplers: Map<string, number>;
+  gateDurations: any;
+
+  constructor(data: any = {}) {
+    this.qubits = new Map();
+    this.couplers = new Map();
+    this.gateDurations = { ...DEFAULT_GATE_DURATIONS, ...(data.gateDurations || {}) };
+
+    (data.qubits || []).forEach((q: any, idx: number) => {
+      const id = q.id ?? idx;
+      if (!Number.isInteger(id) || id < 0) throw new Error(`Calibration: invalid qubit id ${JSON.stringify(q.id)}`);
+      const entry = { ...DEFAULT_QUBIT };
+      // Error rates in [0, 1); coherence times strictly positive (idle time is divided by them)
+      ['readoutError', 'singleQubitError', 't1', 't2'].forEach(field => {
+        if (q[field] === undefined) return;
+        const value = q[field];
+        const valid = typeof value === 'number' && Number.isFinite(value)
+          && (field === 't1' || field === 't2' ? value > 0 : value >= 0 && value < 1);
+        if (!valid) throw new Error(`Calibration: qubit ${id} has invalid ${field} ${value}`);
+        entry[field] = value;
+      });
+      this.qubits.set(id, entry);
+    });
+
+    (data.couplers || []).forEach((c: any) => {
+      if (!Array.isArray(c.qubits) || c.qubits.length !== 2) {
+        throw new Error(`Calibration: coupler entries need a 'qubits' pair, got ${JSON.stringify(c)}`);
+      }
+      if (typeof c.error !== 'number' || c.error < 0 || c.error >= 1) {
+        throw new Error(`Calibration: coupler ${c.qubits.join('-')} has invalid error ${c.error}`);
+      }
+      this.couplers.set(Calibration.couplerKey(c.qubits[0], c.qubits[1]), c.error);
+    });
+  }
+
+  static couplerKey(q1: number, q2: number) {
+    return `${Math.min(q1, q2)}-${Math.max(q1, q2)}`;
+  }
+
+  static fromJSON(json: string | any) {
+    const data = typeof json === 'string' ? JSON.parse(json) : json;
+    if (!data || typeof data !== 'object') throw new Error('Calibration: expected a JSON object');
+    return new Calibration(data);
+  }
+
+  toJSON() {
+    return {
+      qubits: [...this.qubits.entries()].map(([id, q]) => ({ id, ...q })),
+      couplers: [...this.couplers.entries()].map(([key, error]) => ({ qubits: key.split('-').map(Number), error })),
+      gateDurations: { ...this.gateDurations }
+    };
+  }
+
+  qubit(q: number) {
+    return this.qubits.get(q) || DEFAULT_QUBIT;
+  }
+
+  couplerError(q1: number, q2: number) {
+    return this.couplers.get(Calibration.couplerKey(q1, q2)) ?? DEFAULT_COUPLER_ERROR;
+  }
+
+  readoutError(q: number) {
+    return this.qubit(q).readoutError;
+  }
+
+  singleQubitError(q: number) {
+    return this.qubit(q).singleQubitError;
+  }
+
+  // Throws if the calibration references qubits or couplers the topology lacks
+  validateFor(topology: any) {
+    this.qubits.forEach((_, id) => {
+      if (!topology.graph[id]) throw new Error(`Calibration: qubit ${id} is not on the ${topology.type} topology`);
+    });
+    this.couplers.forEach((_, key) => {
+      const [q1, q2] = key.split('-').map(Number);
+      if (!topology.isConnected(q1, q2)) throw new Error(`Calibration: coupler ${key} is not on the ${topology.type} topology`);
+    });
+  }
+
+  errorRange() {
+    const errors = [...this.couplers.values()];
+    if (errors.length === 0) return { min: DEFAULT_COUPLER_ERROR, max: DEFAULT_COUPLER_ERROR };
+    return { min: Math.min(...errors), max: Math.max(...errors) };
+  }
+}
@@ -0,0 +1,127 @@
+// All-pairs shortest paths over a coupling graph, stored row-major in typed
+// arrays: dist[a * size + b] is the path length and next[a * size + b] the
+// first hop from a towards b (-1 when unreachable or a === b).
+//
+// Unweighted graphs use one BFS per source; weighted graphs one Dijkstra per
+// source. Edge weights must be symmetric, so the predecessor tree rooted at b
+// doubles as the next-hop table towards b.
+export class DistanceMatrix {
+  size: number;
+  dist: Float64Array;
+  next: Int32Array;
+
+  constructor(graph: Record<number, number[]>, weight: ((a: number, b: number) => number) | null = null) {
+    this.size = Object.keys(graph).reduce((max, q) => Math.max(max, parseInt(q, 10) + 1), 0);
+    this.dist = new Float64Array(this.size * this.size).fill(Infinity);
+    this.next = new Int32Array(this.size * this.size).fill(-1);
+
+    for (let source = 0; source < this.size; source++) {
+      if (weight) this.dijkstra(graph, weight, source);
+      else this.bfs(graph, source);
+    }
+  }
+
+  bfs(graph: Record<number, number[]>, source: number) {
+    const { size, next } = this;
+    const best = new Float64Array(size).fill(Infinity);
+    const queue = new Int32Array(size);
+    let head = 0;
+    let tail = 0;
+
+    best[source] = 0;
+    queue[tail++] = source;
+
+    while (head < tail) {
+      const node = queue[head++];
+      (graph[node] || []).forEach(neighbor => {
+        if (best[neighbor] !== Infinity) return;
+        best[neighbor] = best[node] + 1;
+        next[neighbor * size + source] = node;
+        queue[tail++] = neighbor;
+      });
+    }
+
+    this.storeDistances(source, best);
+  }
+
+  dijkstra(graph: Record<number, number[]>, weight: (a: number, b: number) => number, source: number) {
+    const { size, next } = this;
+    const best = new Float64Array(size).fill(Infinity);
+    const heap: [number, number][] = [];
+
+    const push = (d: number, node: number) => {
+      heap.push([d, node]);
+      let i = heap.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (heap[parent][0] <= heap[i][0]) break;
+        [heap[parent], heap[i]] = [heap[i], heap[parent]];
+        i = parent;
+      }
+    };
+
+    const pop = () => {
+      const top = heap[0];
+      const last = heap.pop() as [number, number];
+      if (heap.length > 0) {
+        heap[0] = last;
+        let i = 0;
+        for (;;) {
+          const l = 2 * i + 1;
+          const r = l + 1;
+          let smallest = i;
+          if (l < heap.length && heap[l][0] < heap[smallest][0]) smallest = l;
+          if (r < heap.length && heap[r][0] < heap[smallest][0]) smallest = r;
+          if (smallest === i) break;
+          [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+          i = smallest;
+        }
+      }
+      return top;
+    };
+
+    best[source] = 0;
+    push(0, source);
+
+    while (heap.length > 0) {
+      const [d, node] = pop();
+      if (d > best[node]) continue;
+      (graph[node] || []).forEach(neighbor => {
+        const alt = d + weight(node, neighbor);
+        if (alt < best[neighbor]) {
+          best[neighbor] = alt;
+          next[neighbor * size + source] = node;
+          push(alt, neighbor);
+        }
+      });
+    }
+
+    this.storeDistances(source, best);
+  }
+
+  // Distances are symmetric, so fill both the row and the column of source
+  storeDistances(source: number, best: Float64Array) {
+    for (let v = 0; v < this.size; v++) {
+      this.dist[v * this.size + source] = best[v];
+      this.dist[source * this.size + v] = best[v];
+    }
+  }
+
+  distance(a: number, b: number) {
+    if (a < 0 || b < 0 || a >= this.size || b >= this.size) return Infinity;
+    return this.dist[a * this.size + b];
+  }
+
+  // Shortest path from a to b inclusive, or [] when unreachable
+  path(a: number, b: number) {
+    if (this.distance(a, b) === Infinity) return [];
+
+    const path = [a];
+    let node = a;
+    while (node !== b) {
+      node = this.next[node * this.size + b];
+      path.push(node);
+    }
+    return path;
+  }
+}
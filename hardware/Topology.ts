@@ -1,19 +1,190 @@
+import { Calibration, DEFAULT_COUPLER_ERROR } from './Calibration';
+import { DistanceMatrix } from './DistanceMatrix';
+
+export const TOPOLOGY_TYPES: Record<string, string> = {
+  lnn: 'Linear Nearest-Neighbor',
+  grid2d: '2D Grid Lattice',
+  star: 'Star Topology',
+  ring: 'Ring',
+  full: 'Fully Connected',
+  tree: 'Binary Tree',
+  heavyhex: 'Heavy-Hex (IBM)',
+  sycamore: 'Diagonal Grid (Sycamore)',
+  custom: 'Custom Edge List'
+};
+
+// Routing penalty, in hops, for a CX that runs against a directed coupler and
+// so needs four Hadamards around it (a SWAP costs three CX per hop)
+export const CX_REVERSAL_COST = 0.1;
+
+// IBM-style heavy-hex lattice: rows of linearly coupled qubits joined by bridge
+// qubits every 4 columns, alternating offsets 0 and 2 between row pairs. The
+// lattice is grown until it has n qubits, cut to the first n reached by BFS
+// from qubit 0 (so it stays connected) and renumbered row-major.
+function heavyHexLattice(n: number) {
+  const width = 4 * Math.max(1, Math.ceil(Math.sqrt(n) / 4)) + 1;
+  const coords: { x: number; y: number }[] = [];
+  const edges: number[][] = [];
+  let prevRow: number[] = [];
+
+  for (let r = 0; coords.length < n; r++) {
+    const row: number[] = [];
+    for (let c = 0; c < width; c++) {
+      row.push(coords.length);
+      coords.push({ x: c, y: 2 * r });
+      if (c > 0) edges.push([row[c - 1], row[c]]);
+    }
+
+    if (r > 0) {
+      const offset = (r - 1) % 2 === 0 ? 0 : 2;
+      // Bridges are appended after the row, then renumbered row-major below
+      for (let c = offset; c < width; c += 4) {
+        const bridge = coords.length;
+        coords.push({ x: c, y: 2 * r - 1 });
+        edges.push([prevRow[c], bridge], [bridge, row[c]]);
+      }
+    }
+    prevRow = row;
+  }
+
+  const adjacency: number[][] = coords.map(() => []);
+  edges.forEach(([a, b]) => {
+    adjacency[a].push(b);
+    adjacency[b].push(a);
+  });
+
+  const kept = new Set([0]);
+  const queue = [0];
+  while (queue.length > 0 && kept.size < n) {
+    const node = queue.shift() as number;
+    adjacency[node].forEach(nb => {
+      if (kept.size < n && !kept.has(nb)) {
+        kept.add(nb);
+        queue.push(nb);
+      }
+    });
+  }
+
+  const order = [...kept].sort((a, b) => coords[a].y - coords[b].y || coords[a].x - coords[b].x);
+  const relabel = new Map(order.map((old, idx) => [old, idx]));
+
+  return {
+    coords: order.map(old => coords[old]),
+    edges: edges
+      .filter(([a, b]) => relabel.has(a) && relabel.has(b))
+      .map(([a, b]) => [relabel.get(a) as number, relabel.get(b) as number])
+  };
+}
+
 export class HardwareTopology {
   type: string;
   params: any;
   graph: Record<number, number[]>;
-  distanceCache: Map<string, number>;
+  directions: Set<string> | null;
+  calibration: Calibration | null;
+  errorAware: boolean;
+  matrices: Map<string, DistanceMatrix>;
+  meanEdgeCost: number | null;
 
   constructor(type: string, params: any = {}) {
     this.type = type;
     this.params = params;
     this.graph = this.buildGraph();
-    this.distanceCache = new Map();
+    this.directions = this.buildDirections();
+    this.calibration = null;
+    this.errorAware = false;
+    this.matrices = new Map();
+    this.meanEdgeCost = null;
+  }
+
+  // Topology of the given type sized for n qubits; lattices get the smallest
+  // near-square rows x cols that fits. Explicit params override the sizing.
+  static forQubits(type: string, n: number, params: any = {}) {
+    const rows = Math.ceil(Math.sqrt(n));
+    const cols = Math.ceil(n / rows);
+    return new HardwareTopology(type, { qubits: n, rows, cols, ...params });
+  }
+
+  // Accepts a bare list of [a, b] pairs or an object such as
+  // { "name": "my-device", "couplingMap": [[0, 1], ...], "positions": [[x, y], ...], "names": ["Q0", ...] }
+  // (`coupling_map`, `edges`, `qubit_coordinates` and `qubit_names` are accepted as aliases).
+  // With "directed": true each [a, b] pair only supports CX with control a and target b.
+  static fromCouplingMap(json: string | any) {
+    const data = typeof json === 'string' ? JSON.parse(json) : json;
+    const spec = Array.isArray(data) ? { couplingMap: data } : data;
+    if (!spec || typeof spec !== 'object') throw new Error('Coupling map: expected a JSON array or object');
+
+    const edges = spec.couplingMap || spec.coupling_map || spec.edges;
+    if (!Array.isArray(edges)) throw new Error('Coupling map: missing "couplingMap" list of [a, b] pairs');
+
+    const positions = spec.positions || spec.qubit_coordinates;
+    const names = spec.names || spec.qubit_names;
+    const nQubits = spec.nQubits ?? spec.n_qubits;
+    const params: any = { edges, name: spec.name, directed: !!spec.directed };
+    if (nQubits !== undefined) params.qubits = nQubits;
+
+    const topology = new HardwareTopology('custom', params);
+    const size = Object.keys(topology.graph).length;
+
+    if (positions !== undefined) {
+      if (!Array.isArray(positions) || positions.length !== size ||
+          !positions.every((p: any) => Array.isArray(p) && p.length >= 2 && p.every((v: any) => typeof v === 'number'))) {
+        throw new Error(`Coupling map: "positions" must list one [x, y] pair for each of the ${size} qubits`);
+      }
+      topology.params.positions = positions;
+    }
+    if (names !== undefined) {
+      if (!Array.isArray(names) || names.length !== size) {
+        throw new Error(`Coupling map: "names" must list one name for each of the ${size} qubits`);
+      }
+      topology.params.names = names.map(String);
+    }
+
+    return topology;
+  }
+
+  toCouplingMap() {
+    const couplingMap: number[][] = [];
+    Object.keys(this.graph).forEach(aStr => {
+      const a = parseInt(aStr, 10);
+      this.graph[a].forEach(b => {
+        if (this.directions ? this.supportsCx(a, b) : a < b) couplingMap.push([a, b]);
+      });
+    });
+
+    const spec: any = {
+      name: this.params.name || this.type,
+      nQubits: Object.keys(this.graph).length,
+      couplingMap,
+      positions: this.layoutPositions().map(({ x, y }: any) => [x, y])
+    };
+    if (this.params.names) spec.names = [...this.params.names];
+    if (this.directions) spec.directed = true;
+    return spec;
+  }
+
+  setCalibration(calibration: Calibration | null) {
+    if (calibration) calibration.validateFor(this);
+    this.calibration = calibration;
+    this.matrices.delete('routing');
+    this.matrices.delete('error');
+    this.meanEdgeCost = null;
+  }
+
+  // When enabled (and calibrated), routing distances follow error-weighted edges
+  setErrorAware(enabled: boolean) {
+    this.errorAware = enabled;
+    this.matrices.delete('routing');
   }
 
   buildGraph() {
     const { type, params } = this;
     const graph: Record<number, number[]> = {};
+    const link = (a: number, b: number) => {
+      if (a === b || graph[a].includes(b)) return;
+      graph[a].push(b);
+      graph[b].push(a);
+    };
 
     if (type === 'lnn') {
       const n = params.qubits || 5;
@@ -42,57 +213,207 @@ export class HardwareTopology {
         graph[0].push(i);
         graph[i] = [0];
       }
+    } else if (type === 'ring') {
+      const n = params.qubits || 5;
+      for (let i = 0; i < n; i++) graph[i] = [];
+      for (let i = 0; i < n; i++) link(i, (i + 1) % n);
+    } else if (type === 'full') {
+      const n = params.qubits || 5;
+      for (let i = 0; i < n; i++) graph[i] = [];
+      for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) link(i, j);
+      }
+    } else if (type === 'tree') {
+      const n = params.qubits || 7;
+      for (let i = 0; i < n; i++) graph[i] = [];
+      for (let i = 1; i < n; i++) link(i, Math.floor((i - 1) / 2));
+    } else if (type === 'heavyhex') {
+      const n = params.qubits || 16;
+      for (let i = 0; i < n; i++) graph[i] = [];
+      heavyHexLattice(n).edges.forEach(([a, b]) => link(a, b));
+    } else if (type === 'sycamore') {
+      // Rows offset by half a site; each qubit couples diagonally to the row below
+      const rows = params.rows || 3;
+      const cols = params.cols || 3;
+      for (let i = 0; i < rows * cols; i++) graph[i] = [];
+      for (let r = 0; r < rows - 1; r++) {
+        for (let c = 0; c < cols; c++) {
+          const id = r * cols + c;
+          const below = (r + 1) * cols;
+          const partner = r % 2 === 0 ? c - 1 : c + 1;
+          link(id, below + c);
+          if (partner >= 0 && partner < cols) link(id, below + partner);
+        }
+      }
+    } else if (type === 'custom') {
+      const edges: any[] = params.edges || [];
+      const maxId = edges.reduce((max, e) => Math.max(max, ...(Array.isArray(e) ? e : [])), -1);
+      const n = Math.max(params.qubits || 0, maxId + 1);
+      for (let i = 0; i < n; i++) graph[i] = [];
+      edges.forEach(edge => {
+        if (!Array.isArray(edge) || edge.length !== 2 || !edge.every(q => Number.isInteger(q) && q >= 0) || edge[0] === edge[1]) {
+          throw new Error(`Invalid edge ${JSON.stringify(edge)} in custom topology`);
+        }
+        link(edge[0], edge[1]);
+      });
+    } else {
+      throw new Error(`Unknown topology type '${type}' (expected one of: ${Object.keys(TOPOLOGY_TYPES).join(', ')})`);
     }
 
     return graph;
   }
 
-  isConnected(q1: number, q2: number) {
-    return this.graph[q1]?.includes(q2) || false;
+  // Native CX directions as "control>target" keys, or null when every coupler
+  // works both ways. Custom edges are directed as listed (list both orders for
+  // a bidirectional coupler); generated topologies point low -> high index.
+  buildDirections() {
+    if (!this.params.directed) return null;
+
+    const directions = new Set<string>();
+    if (this.type === 'custom') {
+      (this.params.edges || []).forEach(([a, b]: number[]) => directions.add(`${a}>${b}`));
+    } else {
+      Object.keys(this.graph).forEach(aStr => {
+        const a = parseInt(aStr, 10);
+        this.graph[a].forEach(b => {
+          if (a < b) directions.add(`${a}>${b}`);
+        });
+      });
+    }
+    return directions;
   }
 
-  distance(q1: number, q2: number) {
-    const key = `${Math.min(q1, q2)}-${Math.max(q1, q2)}`;
-    if (this.distanceCache.has(key)) return this.distanceCache.get(key) as number;
+  isDirected() {
+    return this.directions !== null;
+  }
+
+  // Whether CX control -> target runs natively on an existing coupler
+  supportsCx(control: number, target: number) {
+    if (!this.isConnected(control, target)) return false;
+    return !this.directions || this.directions.has(`${control}>${target}`);
+  }
 
-    const visited = new Set<number>();
-    const queue: [number, number][] = [[q1, 0]];
+  // Extra routing cost of a CX between adjacent qubits in this orientation
+  cxDirectionCost(control: number, target: number) {
+    return this.isConnected(control, target) && !this.supportsCx(control, target) ? CX_REVERSAL_COST : 0;
+  }
 
-    while (queue.length > 0) {
-      const [node, dist] = queue.shift() as [number, number];
-      if (node === q2) {
-        this.distanceCache.set(key, dist);
-        return dist;
+  // 2D coordinates (in units of one coupler) used by the visualizers
+  layoutPositions() {
+    const { type, params } = this;
+    const n = Object.keys(this.graph).length;
+    const circle = (count: number, radius: number) => Array.from({ length: count }, (_, i) => ({
+      x: radius * Math.cos((2 * Math.PI * i) / Math.max(1, count)),
+      y: radius * Math.sin((2 * Math.PI * i) / Math.max(1, count))
+    }));
+
+    if (params.positions && params.positions.length >= n) {
+      return params.positions.slice(0, n).map(([x, y]: number[]) => ({ x, y }));
+    }
+
+    switch (type) {
+      case 'lnn':
+        return Array.from({ length: n }, (_, i) => ({ x: i, y: 0 }));
+      case 'grid2d': {
+        const cols = params.cols || 3;
+        return Array.from({ length: n }, (_, i) => ({ x: i % cols, y: Math.floor(i / cols) }));
       }
-      if (visited.has(node)) continue;
-      visited.add(node);
+      case 'star':
+        return [{ x: 0, y: 0 }, ...circle(n - 1, Math.max(1, (n - 1) / (2 * Math.PI)))];
+      case 'tree':
+        return Array.from({ length: n }, (_, i) => {
+          const level = Math.floor(Math.log2(i + 1));
+          const slot = i + 1 - 2 ** level;
+          const levels = Math.floor(Math.log2(n)) + 1;
+          const spread = 2 ** (levels - 1);
+          return { x: ((slot + 0.5) * spread) / 2 ** level, y: level * 1.5 };
+        });
+      case 'heavyhex':
+        return heavyHexLattice(n).coords;
+      case 'sycamore': {
+        const cols = params.cols || 3;
+        return Array.from({ length: n }, (_, i) => {
+          const r = Math.floor(i / cols);
+          return { x: (i % cols) + (r % 2 === 0 ? 0 : 0.5), y: r * 0.7 };
+        });
+      }
+      default:
+        // ring, full and custom graphs without coordinates sit on a circle
+        return circle(n, Math.max(1, n / (2 * Math.PI)));
+    }
+  }
 
-      (this.graph[node] || []).forEach(neighbor => {
-        if (!visited.has(neighbor)) queue.push([neighbor, dist + 1]);
-      });
+  isConnected(q1: number, q2: number) {
+    return this.graph[q1]?.includes(q2) || false;
+  }
+
+  // All-pairs tables, built on first use: 'hops' counts couplers, 'routing'
+  // uses edgeWeight and 'error' sums raw couplerLogCost
+  distanceMatrix(mode = 'hops') {
+    let matrix = this.matrices.get(mode);
+    if (!matrix) {
+      const weight = mode === 'routing' ? (a: number, b: number) => this.edgeWeight(a, b)
+        : mode === 'error' ? (a: number, b: number) => this.couplerLogCost(a, b)
+        : null;
+      matrix = new DistanceMatrix(this.graph, weight);
+      this.matrices.set(mode, matrix);
     }
+    return matrix;
+  }
 
-    this.distanceCache.set(key, Infinity);
-    return Infinity;
+  distance(q1: number, q2: number) {
+    return this.distanceMatrix('hops').distance(q1, q2);
   }
 
   getShortestPath(q1: number, q2: number) {
-    const visited = new Set<number>();
-    const queue: [number, number[]][] = [[q1, [q1]]];
-
-    while (queue.length > 0) {
-      const [node, path] = queue.shift() as [number, number[]];
-      if (node === q2) return path;
-      if (visited.has(node)) continue;
-      visited.add(node);
-
-      (this.graph[node] || []).forEach(neighbor => {
-        if (!visited.has(neighbor)) {
-          queue.push([neighbor, [...path, neighbor]]);
-        }
+    return this.distanceMatrix('hops').path(q1, q2);
+  }
+
+  couplerError(q1: number, q2: number) {
+    return this.calibration ? this.calibration.couplerError(q1, q2) : DEFAULT_COUPLER_ERROR;
+  }
+
+  // -ln(1 - error) of a coupler: additive along a path of two-qubit gates
+  couplerLogCost(q1: number, q2: number) {
+    return -Math.log(1 - this.couplerError(q1, q2));
+  }
+
+  // Edge weight -ln(1 - error), scaled so the average coupler weighs 1 hop
+  edgeWeight(q1: number, q2: number) {
+    if (!this.calibration || !this.errorAware) return 1;
+
+    const cost = (a: number, b: number) => this.couplerLogCost(a, b);
+    if (this.meanEdgeCost === null) {
+      let total = 0;
+      let edges = 0;
+      Object.keys(this.graph).forEach(aStr => {
+        const a = parseInt(aStr, 10);
+        this.graph[a].forEach(b => {
+          if (a < b) {
+            total += cost(a, b);
+            edges++;
+          }
+        });
       });
+      this.meanEdgeCost = edges > 0 ? total / edges : 0;
     }
 
-    return [];
+    return this.meanEdgeCost > 0 ? cost(q1, q2) / this.meanEdgeCost : 1;
+  }
+
+  // Distance used by routers: error-weighted when enabled, hop count otherwise
+  routingDistance(q1: number, q2: number) {
+    if (!this.calibration || !this.errorAware) return this.distance(q1, q2);
+    return this.distanceMatrix('routing').distance(q1, q2);
+  }
+
+  // Smallest summed -ln(1 - error) over any path between two physical qubits
+  errorDistance(q1: number, q2: number) {
+    return this.distanceMatrix('error').distance(q1, q2);
+  }
+
+  getRoutingPath(q1: number, q2: number) {
+    if (!this.calibration || !this.errorAware) return this.getShortestPath(q1, q2);
+    return this.distanceMatrix('routing').path(q1, q2);
   }
 }
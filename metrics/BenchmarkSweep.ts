@@ -0,0 +1,170 @@
+import { BENCHMARKS } from '../compiler/Benchmarks';
+import { HardwareTopology } from '../hardware/Topology';
+import { MAPPERS, createMapper } from '../optimizer/MapperFactory';
+import { InitialPlacement } from '../optimizer/InitialPlacement';
+import { CostModel } from './CostModel';
+import { validateResult } from './ResultValidator';
+import { summarize } from './Statistics';
+
+export const SWEEP_METRICS: Record<string, string> = {
+  swaps: 'SWAPs',
+  depth: 'Depth',
+  distancePenalty: 'Distance Penalty',
+  cost: 'Cost',
+  runtimeMs: 'Runtime (ms)'
+};
+
+// Runs every (benchmark, nQubits, topology, mapper, seed) combination of the
+// config and records one row per run. Runs yield to the event loop in between
+// so a UI can render progress and cancel; given a WorkerPool, every run is a
+// separate job and the runs proceed concurrently.
+export class BenchmarkSweep {
+  config: any;
+  records: any[];
+  cancelled: boolean;
+  pool: any;
+  costModel: CostModel;
+
+  constructor(config: any = {}) {
+    this.config = {
+      benchmarks: config.benchmarks || ['qft'],
+      sizes: config.sizes || [4, 6, 8],
+      topologies: config.topologies || ['grid2d'],
+      mappers: config.mappers || ['greedy', 'lookahead', 'sabre'],
+      seeds: config.seeds || [0],
+      placement: config.placement || 'identity',
+      objective: config.objective || 'weighted'
+    };
+    this.records = [];
+    this.cancelled = false;
+    this.pool = null;
+    this.costModel = new CostModel({ alpha: 10, beta: 1, gamma: 5, objective: this.config.objective });
+
+    this.config.benchmarks.forEach((b: string) => {
+      if (!BENCHMARKS[b]) throw new Error(`Unknown benchmark '${b}'`);
+    });
+    this.config.mappers.forEach((m: string) => {
+      if (!MAPPERS[m]) throw new Error(`Unknown mapper '${m}'`);
+    });
+  }
+
+  configurations() {
+    const { benchmarks, sizes, topologies, mappers, seeds } = this.config;
+    const configs: any[] = [];
+    benchmarks.forEach((benchmark: string) => sizes.forEach((nQubits: number) => topologies.forEach((topology: string) => {
+      mappers.forEach((mapper: string) => seeds.forEach((seed: number) => {
+        configs.push({ benchmark, nQubits, topology, mapper, seed });
+      }));
+    })));
+    return configs;
+  }
+
+  cancel() {
+    this.cancelled = true;
+    if (this.pool) this.pool.cancel();
+  }
+
+  runOne({ benchmark, nQubits, topology, mapper, seed }: any) {
+    const record: any = { benchmark, nQubits, topology, mapper, seed };
+    try {
+      const circuit = BENCHMARKS[benchmark](nQubits);
+      const hardware = HardwareTopology.forQubits(topology, nQubits);
+      const initialLayout = new InitialPlacement(circuit, hardware, { seed }).place(this.config.placement);
+      const instance = createMapper(mapper, circuit, hardware, { objective: this.config.objective, seed });
+
+      const start = performance.now();
+      const result = instance.map(initialLayout);
+      record.runtimeMs = performance.now() - start;
+
+      record.swaps = result.insertedSwaps;
+      record.depth = result.depth;
+      record.distancePenalty = result.distancePenalty;
+      record.cost = this.costModel.evaluate(result, hardware);
+      record.valid = validateResult(circuit, hardware, result).valid;
+    } catch (err) {
+      record.error = String((err as any)?.message || err);
+    }
+    return record;
+  }
+
+  async run(onProgress?: (done: number, total: number, record: any) => void, pool?: any) {
+    const configs = this.configurations();
+    this.records = [];
+    this.cancelled = false;
+    if (pool) return this.runPooled(configs, pool, onProgress);
+
+    for (let i = 0; i < configs.length && !this.cancelled; i++) {
+      const record = this.runOne(configs[i]);
+      this.records.push(record);
+      if (onProgress) onProgress(i + 1, configs.length, record);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return this.records;
+  }
+
+  // Records keep configuration order however the jobs finish
+  async runPooled(configs: any[], pool: any, onProgress?: (done: number, total: number, record: any) => void) {
+    const slots: any[] = configs.map(() => null);
+    let done = 0;
+    this.pool = pool;
+    try {
+      await Promise.all(configs.map((run, i) => pool.run({ type: 'sweep', config: this.config, run }).then((record: any) => {
+        slots[i] = record;
+        this.records = slots.filter(Boolean);
+        done++;
+        if (onProgress) onProgress(done, configs.length, record);
+      })));
+    } catch (err) {
+      if (!this.cancelled) throw err;
+    } finally {
+      this.pool = null;
+    }
+    return this.records;
+  }
+
+  // Mean, min, max and std of each metric over seeds, one row per
+  // (benchmark, nQubits, topology, mapper)
+  aggregate(records = this.records) {
+    const groups = new Map<string, any[]>();
+    records.filter(r => !r.error).forEach(r => {
+      const key = [r.benchmark, r.nQubits, r.topology, r.mapper].join('|');
+      if (!groups.has(key)) groups.set(key, []);
+      (groups.get(key) as any[]).push(r);
+    });
+
+    return [...groups.values()].map(rows => {
+      const { benchmark, nQubits, topology, mapper } = rows[0];
+      const row: any = { benchmark, nQubits, topology, mapper, runs: rows.length, invalid: rows.filter(r => !r.valid).length };
+      Object.keys(SWEEP_METRICS).forEach(metric => {
+        row[metric] = summarize(rows.map(r => r[metric]));
+      });
+      return row;
+    });
+  }
+
+  // Mean metric vs qubit count, one series per mapper (and per benchmark /
+  // topology when the sweep covers several)
+  series(metric: string, aggregated = this.aggregate()) {
+    const multiBenchmark = this.config.benchmarks.length > 1;
+    const multiTopology = this.config.topologies.length > 1;
+    const byName = new Map<string, { name: string; points: { x: number; y: number }[] }>();
+
+    aggregated.forEach(row => {
+      const name = [
+        MAPPERS[row.mapper].label,
+        multiBenchmark ? row.benchmark : null,
+        multiTopology ? row.topology : null
+      ].filter(Boolean).join(' · ');
+      if (!byName.has(name)) byName.set(name, { name, points: [] });
+      (byName.get(name) as any).points.push({ x: row.nQubits, y: row[metric].mean });
+    });
+
+    return [...byName.values()].map(s => ({ ...s, points: s.points.sort((a, b) => a.x - b.x) }));
+  }
+
+  toCsv(records = this.records) {
+    const columns = ['benchmark', 'nQubits', 'topology', 'mapper', 'seed', ...Object.keys(SWEEP_METRICS), 'valid', 'error'];
+    const quote = (v: any) => (v === undefined ? '' : /[",\n]/.test(String(v)) ? `"${String(v).replace(/"/g, '""')}"` : String(v));
+    return [columns.join(','), ...records.map(r => columns.map(c => quote(r[c])).join(','))].join('\n') + '\n';
+  }
+}
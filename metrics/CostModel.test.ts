@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQasm } from '../compiler/QasmParser';
+import { HardwareTopology } from '../hardware/Topology';
+import { GreedyMapper } from '../optimizer/GreedyMapper';
+import { CostModel } from './CostModel';
+
+const QASM = `OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[3];
+h q[0];
+swap q[0], q[1];
+cx q[1], q[2];
+`;
+
+test('estimateSuccess charges a circuit swap gate as 3 CX', () => {
+  const hardware = HardwareTopology.forQubits('lnn', 3);
+  const result = new GreedyMapper(parseQasm(QASM), hardware).map();
+  const swap = result.steps.find((step: any) => step.type === 'swap');
+  assert.ok(swap && !swap.inserted && !swap.physical);
+
+  const esp = new CostModel({ objective: 'esp' });
+  const success = esp.estimateSuccess(result, hardware);
+  assert.ok(success > 0 && success < 1);
+
+  // Same routing with the swap as a single CX scores strictly higher
+  const asCx = { ...result, steps: result.steps.map((step: any) => (step === swap ? { ...step, type: 'cx' } : step)) };
+  assert.ok(esp.estimateSuccess(asCx, hardware) > success);
+  assert.ok(Number.isFinite(esp.evaluate(result, hardware)));
+});
@@ -1,23 +1,97 @@
+import { DAGCircuit, stepQubits } from '../compiler/DAGCircuit';
+import { Calibration } from '../hardware/Calibration';
+
+export const OBJECTIVES: Record<string, string> = {
+  weighted: 'Weighted Cost',
+  esp: 'Success Probability'
+};
+
 export class CostModel {
   alpha: number;
   beta: number;
   gamma: number;
+  objective: string;
 
   constructor(config: any = {}) {
     this.alpha = config.alpha || 10;
     this.beta = config.beta || 1;
     this.gamma = config.gamma || 5;
+    this.objective = config.objective || 'weighted';
   }
 
-  evaluate(result: any) {
-    const swapCount = result.insertedSwaps || 0;
-    const depth = result.depth || 0;
+  evaluate(result: any, hardware?: any) {
+    if (this.objective === 'esp' && hardware) {
+      return -100 * Math.log(Math.max(this.estimateSuccess(result, hardware), Number.MIN_VALUE));
+    }
+
+    // Routing SWAPs plus any appended to restore the initial layout
+    const swapCount = (result.insertedSwaps || 0) + (result.restorationSwaps || 0);
+    // Depth is taken from the routed DAG when steps are available
+    const depth = result.steps ? DAGCircuit.fromSteps(result.steps).depth() : result.depth || 0;
     const distancePenalty = result.distancePenalty || 0;
 
     return this.alpha * swapCount + this.beta * depth + this.gamma * distancePenalty;
   }
 
+  // Estimated success probability: product of (1 - error) over every scheduled
+  // gate and readout, times exp(-idle/T1)·exp(-idle/T2) per used qubit. Hops
+  // left unrouted (distancePenalty) are charged as SWAPs on an average coupler.
+  estimateSuccess(result: any, hardware: any) {
+    const calibration = hardware.calibration || new Calibration();
+    const durations = calibration.gateDurations;
+    const freeAt = new Map<number, number>();
+    const busy = new Map<number, number>();
+    let logSuccess = 0;
+    let makespan = 0;
+
+    (result.steps || []).forEach((step: any) => {
+      const qubits = stepQubits(step);
+      let duration: number;
+
+      if (step.type === 'measure') {
+        logSuccess += Math.log(1 - calibration.readoutError(qubits[0]));
+        duration = durations.readout;
+      } else if (step.type === 'reset') {
+        duration = durations.readout;
+      } else if (qubits.length === 2) {
+        // Devices have no native SWAP: inserted and circuit SWAPs alike run as 3 CX
+        const cxCount = step.type === 'swap' ? 3 : 1;
+        logSuccess -= cxCount * hardware.couplerLogCost(qubits[0], qubits[1]);
+        duration = cxCount * durations.twoQubit;
+        // A SWAP on a directed coupler reverses its middle CX with four Hadamards
+        if (step.directed) {
+          qubits.forEach(q => { logSuccess += 2 * Math.log(1 - calibration.singleQubitError(q)); });
+          duration += 2 * durations.singleQubit;
+        }
+      } else {
+        qubits.forEach(q => { logSuccess += Math.log(1 - calibration.singleQubitError(q)); });
+        duration = durations.singleQubit;
+      }
+
+      const start = Math.max(0, ...qubits.map(q => freeAt.get(q) || 0));
+      qubits.forEach(q => {
+        freeAt.set(q, start + duration);
+        busy.set(q, (busy.get(q) || 0) + duration);
+      });
+      makespan = Math.max(makespan, start + duration);
+    });
+
+    busy.forEach((busyTime, q) => {
+      const idle = makespan - busyTime;
+      const { t1, t2 } = calibration.qubit(q);
+      logSuccess -= idle / t1 + idle / t2;
+    });
+
+    if (result.distancePenalty > 0) {
+      const { min, max } = calibration.errorRange();
+      logSuccess += 3 * result.distancePenalty * Math.log(1 - (min + max) / 2);
+    }
+
+    return Math.exp(logSuccess);
+  }
+
   explain() {
+    if (this.objective === 'esp') return 'Cost = -100·ln(ESP)';
     return `Cost = ${this.alpha}·SWAPs + ${this.beta}·Depth + ${this.gamma}·Distance`;
   }
 }
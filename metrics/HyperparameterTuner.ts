@@ -0,0 +1,177 @@
+import { BENCHMARKS } from '../compiler/Benchmarks';
+import { HardwareTopology } from '../hardware/Topology';
+import { MAPPERS, createMapper, resolveConfig } from '../optimizer/MapperFactory';
+import { GreedyMapper } from '../optimizer/GreedyMapper';
+import { SeededRandom } from '../optimizer/SeededRandom';
+import { CostModel } from './CostModel';
+import { summarize } from './Statistics';
+
+export const TUNING_STRATEGIES: Record<string, string> = {
+  halving: 'Successive Halving',
+  random: 'Random Search'
+};
+
+// Ranges searched for the genetic optimizer; narrower than its config schema
+// so the sampled configs stay affordable
+export const GENETIC_SEARCH_SPACE: Record<string, { min: number; max: number; integer?: boolean }> = {
+  populationSize: { min: 8, max: 120, integer: true },
+  generations: { min: 10, max: 200, integer: true },
+  tournamentSize: { min: 2, max: 8, integer: true },
+  eliteRatio: { min: 0.05, max: 0.4 },
+  initialMutationRate: { min: 0.05, max: 0.6 },
+  minMutationRate: { min: 0.01, max: 0.2 }
+};
+
+// Searches a mapper's hyperparameters over a set of training instances
+// (benchmark x size x topology) within a time budget. A candidate's score on
+// one run is its cost divided by the greedy cost on the same instance, so
+// instances of different sizes weigh alike; lower is better, and equal scores
+// go to the faster config.
+//   random:  every candidate runs `seeds` seeds on every instance
+//   halving: every candidate runs one seed per instance, the better half runs
+//            another seed, and so on until one candidate is left
+// Candidate 0 is the mapper's default config, for reference. When the budget
+// runs out, or `signal` aborts, the candidates that went furthest are ranked on
+// what they ran and the report says `completed: false`.
+export class HyperparameterTuner {
+  config: any;
+  costModel: CostModel;
+  instances: any[];
+
+  constructor(config: any = {}) {
+    this.config = {
+      mapper: config.mapper || 'genetic',
+      space: config.space || GENETIC_SEARCH_SPACE,
+      benchmarks: config.benchmarks || ['qft', 'grover'],
+      sizes: config.sizes || [6, 8],
+      topologies: config.topologies || ['grid2d', 'lnn'],
+      strategy: config.strategy || 'halving',
+      candidates: config.candidates || 16,
+      seeds: config.seeds || 2,
+      budgetMs: config.budgetMs || 30000,
+      objective: config.objective || 'weighted',
+      seed: config.seed ?? 0
+    };
+    if (!MAPPERS[this.config.mapper]) throw new Error(`Unknown mapper '${this.config.mapper}'`);
+    if (!TUNING_STRATEGIES[this.config.strategy]) throw new Error(`Unknown tuning strategy '${this.config.strategy}'`);
+    this.config.benchmarks.forEach((b: string) => {
+      if (!BENCHMARKS[b]) throw new Error(`Unknown benchmark '${b}'`);
+    });
+    this.costModel = new CostModel({ alpha: 10, beta: 1, gamma: 5, objective: this.config.objective });
+    this.instances = [];
+  }
+
+  buildInstances() {
+    const { benchmarks, sizes, topologies } = this.config;
+    const instances: any[] = [];
+    benchmarks.forEach((benchmark: string) => sizes.forEach((nQubits: number) => topologies.forEach((topology: string) => {
+      const circuit = BENCHMARKS[benchmark](nQubits);
+      const hardware = HardwareTopology.forQubits(topology, nQubits);
+      const baseline = this.costModel.evaluate(new GreedyMapper(circuit, hardware).map(), hardware);
+      instances.push({ name: `${benchmark}(${nQubits}) / ${topology}`, circuit, hardware, baseline: Math.max(1, baseline) });
+    })));
+    return instances;
+  }
+
+  // Uniform draws inside the search space on top of the mapper's defaults
+  sample(rng: SeededRandom) {
+    const config: any = resolveConfig(this.config.mapper);
+    Object.entries(this.config.space).forEach(([key, { min, max, integer }]: any) => {
+      const value = min + rng.next() * (max - min);
+      config[key] = integer ? Math.round(value) : Math.round(value * 1000) / 1000;
+    });
+    // The mutation rate decays towards its minimum, never up to it
+    if (config.minMutationRate > config.initialMutationRate) {
+      [config.minMutationRate, config.initialMutationRate] = [config.initialMutationRate, config.minMutationRate];
+    }
+    return resolveConfig(this.config.mapper, config);
+  }
+
+  evaluate(candidate: any, instance: any, seed: number) {
+    const mapper = createMapper(this.config.mapper, instance.circuit, instance.hardware, {
+      objective: this.config.objective,
+      seed,
+      config: candidate.config
+    });
+    const started = Date.now();
+    const result = mapper.map();
+    candidate.times.push(Date.now() - started);
+    const cost = this.costModel.evaluate(result, instance.hardware);
+    candidate.costs.push(cost);
+    candidate.scores.push(cost / instance.baseline);
+  }
+
+  // onProgress(done, planned runs, best mean score so far). With a signal the
+  // search yields to the event loop between runs so an abort can arrive.
+  async run(onProgress?: (done: number, total: number, best: number | null) => void, signal?: AbortSignal) {
+    const start = Date.now();
+    const { strategy, candidates: count, seeds, budgetMs, seed } = this.config;
+    const rng = new SeededRandom(seed);
+    this.instances = this.buildInstances();
+
+    const candidates = Array.from({ length: Math.max(1, count) }, (_, i) => ({
+      id: i,
+      config: i === 0 ? resolveConfig(this.config.mapper) : this.sample(rng),
+      costs: [] as number[],
+      scores: [] as number[],
+      times: [] as number[],
+      rung: 0
+    }));
+
+    // Rounds of (candidates, seed) pairs; each pair runs on every instance
+    const rounds: number = strategy === 'random' ? seeds : Math.ceil(Math.log2(candidates.length)) + 1;
+    const total = this.instances.length * (strategy === 'random'
+      ? candidates.length * seeds
+      : Array.from({ length: rounds }, (_, r) => Math.max(1, Math.ceil(candidates.length / 2 ** r))).reduce((a, b) => a + b, 0));
+
+    const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : Infinity);
+    const mean = (c: any) => average(c.scores);
+    const byScore = (a: any, b: any) => mean(a) - mean(b) || average(a.times) - average(b.times);
+    const ranked = () => [...candidates].sort((a, b) => b.rung - a.rung || byScore(a, b));
+    let done = 0;
+    let completed = true;
+    let alive = candidates;
+
+    for (let round = 0; round < rounds && completed; round++) {
+      for (const candidate of alive) {
+        for (const instance of this.instances) {
+          if (signal) await new Promise(resolve => setTimeout(resolve, 0));
+          if (signal?.aborted || Date.now() - start > budgetMs) {
+            completed = false;
+            break;
+          }
+          this.evaluate(candidate, instance, (seed + round) >>> 0);
+          done++;
+          if (onProgress) onProgress(done, total, mean(ranked()[0]));
+        }
+        if (!completed) break;
+        candidate.rung = round + 1;
+      }
+      if (strategy === 'halving' && completed) {
+        alive = [...alive].sort(byScore).slice(0, Math.max(1, Math.ceil(alive.length / 2)));
+      }
+    }
+
+    const report = (c: any) => ({
+      id: c.id,
+      config: c.config,
+      runs: c.scores.length,
+      rounds: c.rung,
+      score: summarize(c.scores),
+      cost: summarize(c.costs),
+      timeMs: summarize(c.times)
+    });
+    const results = ranked().filter(c => c.scores.length > 0).map(report);
+    return {
+      mapper: this.config.mapper,
+      strategy,
+      instances: this.instances.map(i => ({ name: i.name, baseline: i.baseline })),
+      best: results[0] || null,
+      defaults: report(candidates[0]),
+      candidates: results,
+      completed,
+      stopped: !!signal?.aborted,
+      elapsedMs: Date.now() - start
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import { restoreLayout } from '../compiler/LayoutRestorer';
+import { MAPPERS, createMapper, resolveConfig } from '../optimizer/MapperFactory';
+import { InitialPlacement } from '../optimizer/InitialPlacement';
+import { checkEquivalence } from '../simulation/EquivalenceChecker';
+import { CostModel } from './CostModel';
+import { OptimalityGap } from './OptimalityGap';
+import { validateResult } from './ResultValidator';
+import { runSeeds } from './Statistics';
+
+// Mappers compared when the caller does not choose: every registered mapper
+// whose maxQubits admits the circuit
+export function defaultMappers(circuit: any) {
+  return Object.values(MAPPERS).filter(p => !p.maxQubits || circuit.nQubits <= p.maxQubits).map(p => p.id);
+}
+
+// Routes one circuit with several mappers from a shared initial placement and
+// annotates each result with its cost, ESP, validation, equivalence check and
+// optimality gap. Stochastic mappers run once per seed (seed, seed + 1, ...)
+// and keep the lowest-cost run. Used by the mapper workers and the CLI.
+//
+// `mappers` lists mapper ids or runs { id, mapper, config, label }, so the same
+// mapper can run with several configs side by side; `id` tells runs apart and
+// `label` is appended to the mapper's name in the results.
+export class MapperComparison {
+  circuit: any;
+  hardware: any;
+  config: any;
+  costModel: CostModel;
+
+  constructor(circuit: any, hardware: any, config: any = {}) {
+    this.circuit = circuit;
+    this.hardware = hardware;
+    this.config = {
+      mappers: config.mappers || defaultMappers(circuit),
+      placement: config.placement || 'identity',
+      objective: config.objective || 'weighted',
+      seed: config.seed ?? 0,
+      seeds: config.seeds || 1,
+      restoreLayout: !!config.restoreLayout
+    };
+    this.config.mappers = this.config.mappers.map((run: any) => normalizeRun(run));
+    const ids = this.config.mappers.map((run: any) => run.id);
+    ids.forEach((id: string, i: number) => {
+      if (ids.indexOf(id) !== i) throw new Error(`Duplicate mapper run '${id}'`);
+    });
+    this.costModel = new CostModel({ alpha: 10, beta: 1, gamma: 5, objective: this.config.objective });
+  }
+
+  seedList() {
+    return Array.from({ length: this.config.seeds }, (_, i) => (this.config.seed + i) >>> 0);
+  }
+
+  initialLayout() {
+    const { seed, placement } = this.config;
+    return new InitialPlacement(this.circuit, this.hardware, { seed }).place(placement);
+  }
+
+  // Routes with one mapper (an id or a run) and annotates the result, all but
+  // the optimality gap: that needs every result first (see measureGaps). Each
+  // call is independent, so a worker pool can run the mappers as separate jobs.
+  // onProgress(fraction done in [0, 1], best cost so far or null)
+  runMapper(mapperRun: any, onProgress?: (fraction: number, best: number | null) => void) {
+    const { circuit, hardware, costModel } = this;
+    const { objective, seed } = this.config;
+    const { id, mapper: key, config, label } = normalizeRun(mapperRun);
+    const initialLayout = this.initialLayout();
+    const runs = MAPPERS[key].stochastic ? this.seedList() : [seed];
+
+    let runIndex = 0;
+    let bestSoFar: number | null = null;
+    const report = (done: number, total: number, best: number | null) => {
+      if (best !== null && (bestSoFar === null || best < bestSoFar)) bestSoFar = best;
+      if (onProgress) onProgress((runIndex + done / total) / runs.length, bestSoFar);
+    };
+
+    report(0, 1, null);
+    const route = (runSeed: number) => {
+      const mapper = createMapper(key, circuit, hardware, { objective, seed: runSeed, onProgress: report, config });
+      const start = Date.now();
+      const result = mapper.map(initialLayout);
+      const timeMs = Date.now() - start;
+      runIndex++;
+      return {
+        ...result,
+        mapper: label ? `${mapper.name} · ${label}` : mapper.name,
+        mapperId: key,
+        runId: id,
+        mapperConfig: config,
+        cost: costModel.evaluate(result, hardware),
+        timeMs
+      };
+    };
+    const routed = runs.length > 1 ? runSeeds(runs, route).best : route(runs[0]);
+
+    const result = this.config.restoreLayout ? restoreLayout(routed, hardware) : routed;
+    const row = {
+      ...result,
+      cost: costModel.evaluate(result, hardware),
+      esp: costModel.estimateSuccess(result, hardware),
+      validation: validateResult(circuit, hardware, result),
+      equivalence: checkEquivalence(circuit, result)
+    };
+    report(0, 1, row.cost);
+    return row;
+  }
+
+  // SWAP gap to the optimum from each row's own initial layout. Exact rows
+  // are recorded before any row is measured, so every mapper sharing their
+  // layout is measured against the proven optimum rather than a quick bound.
+  // Invalid rows get no gap (null) and lend no bound. Pooled callers run this
+  // once all jobs have finished, as a 'gaps' job in the browser.
+  measureGaps(rows: any[]) {
+    const gaps = new OptimalityGap(this.circuit, this.hardware);
+    const valid = (row: any) => row.validation?.valid !== false;
+    rows.filter(valid).forEach(row => gaps.record(row));
+    return rows.map(row => ({ ...row, optimalityGap: valid(row) ? gaps.measure(row) : null }));
+  }
+
+  // Every configured mapper in turn; onProgress(run label, fraction, best cost)
+  run(onProgress?: (mapper: string, fraction: number, best: number | null) => void) {
+    return this.measureGaps(this.config.mappers.map((run: any) => this.runMapper(
+      run,
+      onProgress ? (fraction, best) => onProgress(runLabel(run), fraction, best) : undefined
+    )));
+  }
+}
+
+// { id, mapper, config, label } with the config checked against the mapper's schema
+export function normalizeRun(run: any) {
+  const spec = typeof run === 'string' ? { mapper: run } : run;
+  if (!MAPPERS[spec.mapper]) throw new Error(`Unknown mapper '${spec.mapper}'`);
+  return {
+    id: spec.id || spec.mapper,
+    mapper: spec.mapper,
+    config: resolveConfig(spec.mapper, spec.config),
+    label: spec.label || null
+  };
+}
+
+export function runLabel(run: any) {
+  const { mapper, label } = normalizeRun(run);
+  return label ? `${MAPPERS[mapper].label} · ${label}` : MAPPERS[mapper].label;
+}
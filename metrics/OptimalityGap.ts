@@ -0,0 +1,47 @@
+import { ExactMapper } from '../optimizer/ExactMapper';
+
+// Distance of a routed result from the minimum SWAP count for its initial
+// layout. The minimum comes from a budgeted ExactMapper search; when the
+// search does not finish, its lower bound is used instead, so the reported
+// gap is an upper bound on the true one.
+export class OptimalityGap {
+  circuit: any;
+  hardware: any;
+  config: any;
+  bounds: Map<string, { swaps: number; optimal: boolean }>;
+
+  constructor(circuit: any, hardware: any, config: any = {}) {
+    this.circuit = circuit;
+    this.hardware = hardware;
+    this.config = {
+      maxNodes: config.maxNodes || 20000,
+      timeLimitMs: config.timeLimitMs || 250
+    };
+    this.bounds = new Map();
+  }
+
+  // Reuses an ExactMapper result (usually run with a larger budget) for its layout
+  record(result: any) {
+    if (result.lowerBound === undefined) return;
+    this.bounds.set(result.initialLayout.join(','), {
+      swaps: result.optimal ? result.insertedSwaps : result.lowerBound,
+      optimal: result.optimal
+    });
+  }
+
+  boundFor(layout: number[]) {
+    const key = layout.join(',');
+    const cached = this.bounds.get(key);
+    if (cached) return cached;
+
+    const exact: any = new ExactMapper(this.circuit, this.hardware, this.config).map(layout);
+    const bound = { swaps: exact.optimal ? exact.insertedSwaps : exact.lowerBound, optimal: exact.optimal };
+    this.bounds.set(key, bound);
+    return bound;
+  }
+
+  measure(result: any) {
+    const bound = this.boundFor(result.initialLayout);
+    return { bound: bound.swaps, optimal: bound.optimal, gap: result.insertedSwaps - bound.swaps };
+  }
+}
@@ -0,0 +1,107 @@
+import { DAGCircuit, stepQubits } from '../compiler/DAGCircuit';
+
+const MAX_ISSUES = 20;
+
+// Structural checks on a mapper result against its source circuit and the
+// hardware it was routed for:
+//   - every two-qubit step (SWAPs included) acts on coupled physical qubits,
+//     in a native direction for CX on directed topologies
+//   - the layout evolves consistently: SWAPs exchange exactly the logical
+//     qubits they name, gate steps act on layout[logical], each step's recorded
+//     layout matches, and the last one equals finalLayout
+//   - the non-inserted steps reproduce every circuit gate once, in an order the
+//     circuit's DAG allows (pieces of a gate rewritten by the direction fixer
+//     count once, via `origin`)
+export class ResultValidator {
+  circuit: any;
+  hardware: any;
+
+  constructor(circuit: any, hardware: any) {
+    this.circuit = circuit;
+    this.hardware = hardware;
+  }
+
+  validate(result: any) {
+    const issues: string[] = [];
+    const report = (msg: string) => { if (issues.length < MAX_ISSUES) issues.push(msg); };
+    const steps: any[] = result.steps || [];
+    const n = this.circuit.nQubits;
+
+    const layout: number[] = [...(result.initialLayout || [])];
+    if (layout.length !== n) report(`initial layout has ${layout.length} entries for ${n} logical qubits`);
+    if (new Set(layout).size !== layout.length) report('initial layout maps two logical qubits to one physical qubit');
+    layout.forEach((p, l) => {
+      if (!this.hardware.graph[p]) report(`logical q${l} starts on missing physical qubit ${p}`);
+    });
+
+    const sameLayout = (a: number[], b: number[]) => a.length === b.length && a.every((p, i) => p === b[i]);
+    const dag = new DAGCircuit(this.circuit);
+    const pending = dag.predecessors.map(p => p.length);
+    const front = new Set(dag.frontLayer());
+    let executed = 0;
+    let lastOrigin: any = null;
+
+    steps.forEach((step, idx) => {
+      const at = `step ${idx} (${step.type})`;
+      const qubits = stepQubits(step);
+
+      if (qubits.length === 2) {
+        const [a, b] = qubits;
+        if (!this.hardware.isConnected(a, b)) report(`${at} acts on uncoupled physical qubits ${a} and ${b}`);
+        else if (step.type === 'cx' && !this.hardware.supportsCx(a, b)) report(`${at} runs CX ${a}->${b} against a directed coupler`);
+      }
+
+      if (step.type === 'swap' && step.inserted) {
+        const [p1, p2] = step.physical;
+        const expected = [layout.indexOf(p1), layout.indexOf(p2)];
+        if (!step.logical || step.logical[0] !== expected[0] || step.logical[1] !== expected[1]) {
+          report(`${at} names logical [${step.logical}] but physical ${p1}, ${p2} hold [${expected}]`);
+        }
+        if (expected[0] !== -1) layout[expected[0]] = p2;
+        if (expected[1] !== -1) layout[expected[1]] = p1;
+      } else if (step.logical) {
+        step.logical.forEach((l: number, i: number) => {
+          if (layout[l] !== qubits[i]) report(`${at} puts logical q${l} on ${qubits[i]} but the layout has it on ${layout[l]}`);
+        });
+      }
+
+      if (step.layout && !sameLayout(step.layout, layout)) report(`${at} records a layout that does not follow from the previous steps`);
+
+      if (step.inserted) return;
+
+      // Pieces of one rewritten gate share an origin object
+      if (step.origin && step.origin === lastOrigin) return;
+      lastOrigin = step.origin || null;
+
+      const { type, logical } = step.origin || step;
+      const node = [...front].find(i => {
+        const gate = dag.gates[i];
+        return gate.type === type && gate.qubits.length === logical.length && gate.qubits.every((q: number, k: number) => q === logical[k]);
+      });
+      if (node === undefined) {
+        report(`${at} is ${type}(${logical}), which is not a gate the circuit has ready at this point`);
+        return;
+      }
+
+      front.delete(node);
+      executed++;
+      dag.successors[node].forEach(succ => {
+        pending[succ]--;
+        if (pending[succ] === 0) front.add(succ);
+      });
+    });
+
+    if (executed < dag.size()) {
+      report(`${dag.size() - executed} circuit gate(s) missing from the routed steps`);
+    }
+    if (result.finalLayout && !sameLayout(result.finalLayout, layout)) {
+      report('finalLayout does not match the layout after the last step');
+    }
+
+    return { valid: issues.length === 0, issues };
+  }
+}
+
+export function validateResult(circuit: any, hardware: any, result: any) {
+  return new ResultValidator(circuit, hardware).validate(result);
+}
@@ -0,0 +1,20 @@
+// Summary statistics over repeated runs (population standard deviation)
+export function summarize(values: number[]) {
+  if (values.length === 0) return { mean: NaN, min: NaN, max: NaN, std: NaN };
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return {
+    mean,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    std: Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length)
+  };
+}
+
+// Runs `run(seed)` for each seed and summarises the resulting costs. The
+// lowest-cost result is returned as `best`, tagged with the summary.
+export function runSeeds(seeds: number[], run: (seed: number) => any) {
+  const results = seeds.map(seed => run(seed));
+  const best = results.reduce((a, b) => (b.cost < a.cost ? b : a));
+  const costs = summarize(results.map(r => r.cost));
+  return { results, costs, best: { ...best, seedStats: { seeds, ...costs } } };
+}
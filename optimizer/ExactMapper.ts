@@ -0,0 +1,263 @@
+import { scheduleSteps } from '../compiler/DAGCircuit';
+import { fixDirections } from '../compiler/DirectionFixer';
+
+// Largest circuits the UI routes exactly; the search itself has no size limit
+export const EXACT_MAX_QUBITS = 8;
+
+// A* search for the minimum number of SWAPs that routes the circuit from a
+// given initial layout. A state is (gates executed so far, layout); every
+// ready gate whose qubits are adjacent is executed for free, and each edge
+// of the search is one SWAP on a coupler holding a qubit with two-qubit gates
+// left. The heuristic max(max_g(d_g - 1), ceil(sum_g(d_g - 1) / 2)) over the
+// ready two-qubit gates is admissible: a SWAP moves two qubits, each by one
+// hop, and the ready gates share no qubits.
+//
+// The search stops at `maxNodes` expansions or `timeLimitMs`. The result is
+// then completed greedily from the furthest state reached and is not proven
+// optimal, but `lowerBound` (the smallest f on the open list) still bounds
+// the optimum from below.
+export class ExactMapper {
+  circuit: any;
+  hardware: any;
+  name: string;
+  config: any;
+  queues: number[][];
+
+  constructor(circuit: any, hardware: any, config: any = {}) {
+    this.circuit = circuit;
+    this.hardware = hardware;
+    this.name = 'Exact (A*)';
+    this.config = {
+      maxNodes: config.maxNodes || 100000,
+      timeLimitMs: config.timeLimitMs || 2000
+    };
+    // Gate indices on each logical qubit, in circuit order
+    this.queues = Array.from({ length: circuit.nQubits }, () => []);
+    circuit.gates.forEach((gate: any, i: number) => gate.qubits.forEach((q: number) => this.queues[q].push(i)));
+  }
+
+  ready(progress: number[], index: number) {
+    return this.circuit.gates[index].qubits.every((q: number) => this.queues[q][progress[q]] === index);
+  }
+
+  // Ready gates whose first qubit queue holds them, lowest index first
+  readyGates(progress: number[]) {
+    const gates: number[] = [];
+    this.queues.forEach((queue, q) => {
+      const index = queue[progress[q]];
+      if (index !== undefined && this.circuit.gates[index].qubits[0] === q && this.ready(progress, index)) gates.push(index);
+    });
+    return gates.sort((a, b) => a - b);
+  }
+
+  // Executes every ready gate that needs no routing until none is left
+  executeReady(progress: number[], layout: number[]) {
+    const executed: number[] = [];
+    let changed = true;
+    while (changed) {
+      changed = false;
+      this.readyGates(progress).forEach(index => {
+        const gate = this.circuit.gates[index];
+        if (gate.qubits.length === 2 && !this.hardware.isConnected(layout[gate.qubits[0]], layout[gate.qubits[1]])) return;
+        gate.qubits.forEach((q: number) => progress[q]++);
+        executed.push(index);
+        changed = true;
+      });
+    }
+    return executed;
+  }
+
+  heuristic(progress: number[], layout: number[]) {
+    let max = 0;
+    let sum = 0;
+    this.readyGates(progress).forEach(index => {
+      const gate = this.circuit.gates[index];
+      if (gate.qubits.length !== 2) return;
+      const hops = this.hardware.distance(layout[gate.qubits[0]], layout[gate.qubits[1]]) - 1;
+      max = Math.max(max, hops);
+      sum += hops;
+    });
+    return Math.max(max, Math.ceil(sum / 2));
+  }
+
+  // Logical qubits with two-qubit gates still to run
+  activeQubits(progress: number[]) {
+    return this.queues.map((queue, q) => queue.slice(progress[q]).some(i => this.circuit.gates[i].qubits.length === 2));
+  }
+
+  map(initialLayout?: number[]) {
+    const start = Date.now();
+    const layout0 = initialLayout ? [...initialLayout] : Array.from({ length: this.circuit.nQubits }, (_, i) => i);
+    const progress0 = new Array(this.circuit.nQubits).fill(0);
+    const total = this.circuit.gates.filter((g: any) => g.qubits.length > 0).length;
+    const couplers: number[][] = [];
+    Object.keys(this.hardware.graph).forEach(key => {
+      const a = parseInt(key, 10);
+      this.hardware.graph[a].forEach((b: number) => { if (a < b) couplers.push([a, b]); });
+    });
+
+    const makeNode = (progress: number[], layout: number[], g: number, parent: any, swap: number[] | null) => {
+      const executed = this.executeReady(progress, layout);
+      const done = (parent ? parent.done : 0) + executed.length;
+      const h = this.heuristic(progress, layout);
+      return { key: `${progress.join(',')}|${layout.join(',')}`, progress, layout, g, f: g + h, done, parent, swap, executed };
+    };
+
+    // Binary heap on (f, -done): ties prefer states further through the circuit
+    const heap: any[] = [];
+    const before = (a: any, b: any) => a.f < b.f || (a.f === b.f && a.done > b.done);
+    const push = (node: any) => {
+      heap.push(node);
+      let i = heap.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (!before(heap[i], heap[parent])) break;
+        [heap[parent], heap[i]] = [heap[i], heap[parent]];
+        i = parent;
+      }
+    };
+    const pop = () => {
+      const top = heap[0];
+      const last = heap.pop();
+      if (heap.length > 0) {
+        heap[0] = last;
+        let i = 0;
+        while (true) {
+          const l = 2 * i + 1;
+          const r = l + 1;
+          let first = i;
+          if (l < heap.length && before(heap[l], heap[first])) first = l;
+          if (r < heap.length && before(heap[r], heap[first])) first = r;
+          if (first === i) break;
+          [heap[first], heap[i]] = [heap[i], heap[first]];
+          i = first;
+        }
+      }
+      return top;
+    };
+
+    const root = makeNode(progress0, [...layout0], 0, null, null);
+    const bestG = new Map<string, number>([[root.key, 0]]);
+    push(root);
+
+    let goal: any = null;
+    let furthest = root;
+    let expanded = 0;
+
+    while (heap.length > 0) {
+      if (expanded >= this.config.maxNodes || Date.now() - start > this.config.timeLimitMs) break;
+      const node = pop();
+      if (node.g > (bestG.get(node.key) as number)) continue;
+      if (node.done === total) {
+        goal = node;
+        break;
+      }
+      expanded++;
+      if (node.done > furthest.done || (node.done === furthest.done && node.g < furthest.g)) furthest = node;
+
+      const active = this.activeQubits(node.progress);
+      couplers.forEach(([p1, p2]) => {
+        const l1 = node.layout.indexOf(p1);
+        const l2 = node.layout.indexOf(p2);
+        if (!(l1 !== -1 && active[l1]) && !(l2 !== -1 && active[l2])) return;
+
+        const layout = [...node.layout];
+        if (l1 !== -1) layout[l1] = p2;
+        if (l2 !== -1) layout[l2] = p1;
+        const child = makeNode([...node.progress], layout, node.g + 1, node, [p1, p2]);
+        const known = bestG.get(child.key);
+        if (known !== undefined && known <= child.g) return;
+        bestG.set(child.key, child.g);
+        push(child);
+      });
+    }
+
+    const optimal = goal !== null;
+    const end = goal || this.completeGreedily(furthest);
+    const lowerBound = optimal ? end.g : Math.max(root.f, heap.length > 0 ? heap[0].f : root.f);
+
+    return {
+      ...this.buildResult(end, layout0),
+      optimal,
+      lowerBound,
+      nodesExpanded: expanded
+    };
+  }
+
+  // Routes the rest of the circuit from `node` by walking each blocked gate's
+  // control along the routing path
+  completeGreedily(node: any) {
+    let current = node;
+    while (true) {
+      const blocked = this.readyGates(current.progress).find(index => this.circuit.gates[index].qubits.length === 2);
+      if (blocked === undefined) return current;
+
+      const [c, t] = this.circuit.gates[blocked].qubits;
+      const path = this.hardware.getRoutingPath(current.layout[c], current.layout[t]);
+      if (path.length < 3) return current;
+
+      const [p1, p2] = [path[0], path[1]];
+      const layout = [...current.layout];
+      const l1 = layout.indexOf(p1);
+      const l2 = layout.indexOf(p2);
+      if (l1 !== -1) layout[l1] = p2;
+      if (l2 !== -1) layout[l2] = p1;
+
+      const progress = [...current.progress];
+      const executed = this.executeReady(progress, layout);
+      current = { progress, layout, g: current.g + 1, done: current.done + executed.length, parent: current, swap: [p1, p2], executed };
+    }
+  }
+
+  buildResult(end: any, initialLayout: number[]) {
+    const chain: any[] = [];
+    for (let node = end; node; node = node.parent) chain.unshift(node);
+
+    const steps: any[] = [];
+    const layout = [...initialLayout];
+    let distancePenalty = 0;
+
+    chain.forEach(node => {
+      if (node.swap) {
+        const [p1, p2] = node.swap;
+        const logQ1 = layout.indexOf(p1);
+        const logQ2 = layout.indexOf(p2);
+        if (logQ1 !== -1) layout[logQ1] = p2;
+        if (logQ2 !== -1) layout[logQ2] = p1;
+        steps.push({ type: 'swap', physical: [p1, p2], logical: [logQ1, logQ2], layout: [...layout], inserted: true });
+      }
+      node.executed.forEach((index: number) => {
+        const gate = this.circuit.gates[index];
+        steps.push({
+          type: gate.type,
+          qubits: gate.qubits.map((q: number) => layout[q]),
+          logical: gate.qubits,
+          params: gate.params,
+          layout: [...layout],
+          inserted: false
+        });
+      });
+    });
+
+    // Gates left when even greedy completion cannot reach them (disconnected hardware)
+    const progress = [...end.progress];
+    let index = this.readyGates(progress)[0];
+    while (index !== undefined) {
+      const gate = this.circuit.gates[index];
+      if (gate.qubits.length === 2) distancePenalty += this.hardware.distance(layout[gate.qubits[0]], layout[gate.qubits[1]]) - 1;
+      steps.push({ type: gate.type, qubits: gate.qubits.map((q: number) => layout[q]), logical: gate.qubits, params: gate.params, layout: [...layout], inserted: false });
+      gate.qubits.forEach((q: number) => progress[q]++);
+      index = this.readyGates(progress)[0];
+    }
+
+    const routed = fixDirections(steps, this.hardware);
+    return {
+      steps: routed,
+      insertedSwaps: end.g,
+      depth: scheduleSteps(routed),
+      distancePenalty,
+      initialLayout: [...initialLayout],
+      finalLayout: layout
+    };
+  }
+}
@@ -1,12 +1,19 @@
-import { InteractionGraph } from '../compiler/InteractionGraph';
+import { CostModel } from '../metrics/CostModel';
+import { RoutingGenome } from './RoutingGenome';
+import { SeededRandom, randomSeed } from './SeededRandom';
 
+// Evolves RoutingGenomes: initial layout permutations plus per-gate routing
+// choices, so every individual decodes to a fully routed circuit
 export class GeneticSwapOptimizer {
   circuit: any;
   hardware: any;
   name: string;
   config: any;
-  interactionGraph: InteractionGraph;
   fitnessCache: Map<string, number>;
+  codec: RoutingGenome;
+  initialLayout: number[];
+  costModel: CostModel;
+  rng: SeededRandom;
 
   constructor(circuit: any, hardware: any, config: any = {}) {
     this.circuit = circuit;
@@ -19,14 +26,30 @@ export class GeneticSwapOptimizer {
       eliteRatio: config.eliteRatio || 0.2,
       initialMutationRate: config.initialMutationRate || 0.3,
       minMutationRate: config.minMutationRate || 0.05,
-      maxSwapsPerChromosome: config.maxSwapsPerChromosome || 8,
-      plateauThreshold: config.plateauThreshold || 10
+      plateauThreshold: config.plateauThreshold || 10,
+      // When false the initial layout is kept and only routing choices evolve
+      evolveLayout: config.evolveLayout ?? true,
+      objective: config.objective || 'weighted',
+      // Unseeded runs draw a seed so the result can still be reproduced
+      seed: config.seed ?? randomSeed(),
+      // Called after each generation with (generation, generations, best cost)
+      onProgress: config.onProgress || null
     };
-    this.interactionGraph = new InteractionGraph(circuit);
     this.fitnessCache = new Map();
+    this.codec = new RoutingGenome(circuit, hardware);
+    this.initialLayout = Array.from({ length: circuit.nQubits }, (_, i) => i);
+    this.costModel = new CostModel({ objective: this.config.objective });
+    this.rng = new SeededRandom(this.config.seed);
   }
 
-  map() {
+  map(initialLayout?: number[]) {
+    if (initialLayout) {
+      this.initialLayout = [...initialLayout];
+      this.fitnessCache.clear();
+    }
+    // Every map() call replays the same random sequence
+    this.rng = new SeededRandom(this.config.seed);
+
     let population = this.initializePopulation();
     let bestEver: any = null;
     let bestEverFitness = -Infinity;
@@ -34,172 +57,114 @@ export class GeneticSwapOptimizer {
     let mutationRate = this.config.initialMutationRate;
 
     for (let gen = 0; gen < this.config.generations; gen++) {
-      const evaluated = population.map(chromosome => {
-        const cacheKey = this.chromosomeKey(chromosome);
+      const evaluated = population.map(genome => {
+        const cacheKey = this.codec.key(genome);
         if (this.fitnessCache.has(cacheKey)) {
-          return { chromosome, fitness: this.fitnessCache.get(cacheKey) };
+          return { genome, fitness: this.fitnessCache.get(cacheKey) as number };
         }
-        const fitness = this.evaluateFitness(chromosome);
+        const fitness = this.evaluateFitness(genome);
         this.fitnessCache.set(cacheKey, fitness);
-        return { chromosome, fitness };
+        return { genome, fitness };
       });
 
       evaluated.sort((a, b) => b.fitness - a.fitness);
 
       if (evaluated[0].fitness > bestEverFitness) {
-        bestEver = evaluated[0].chromosome;
+        bestEver = evaluated[0].genome;
         bestEverFitness = evaluated[0].fitness;
         plateauCounter = 0;
       } else {
         plateauCounter++;
       }
 
+      if (this.config.onProgress) this.config.onProgress(gen + 1, this.config.generations, -bestEverFitness);
       if (plateauCounter >= this.config.plateauThreshold) break;
 
-      const eliteCount = Math.floor(this.config.populationSize * this.config.eliteRatio);
-      const newPopulation = evaluated.slice(0, eliteCount).map((e: any) => e.chromosome);
+      const eliteCount = Math.max(1, Math.floor(this.config.populationSize * this.config.eliteRatio));
+      const newPopulation = evaluated.slice(0, eliteCount).map(e => e.genome);
 
       while (newPopulation.length < this.config.populationSize) {
         const parent1 = this.tournamentSelect(evaluated);
         const parent2 = this.tournamentSelect(evaluated);
-        let child = this.crossover(parent1, parent2);
-
-        if (Math.random() < mutationRate) {
-          child = this.mutate(child);
-        }
-
-        newPopulation.push(child);
+        newPopulation.push(this.mutate(this.crossover(parent1, parent2), mutationRate));
       }
 
       population = newPopulation;
       mutationRate = Math.max(this.config.minMutationRate, mutationRate * 0.95);
     }
 
-    return this.applyChromosome(bestEver);
+    return { ...this.codec.decode(bestEver), seed: this.rng.seed };
   }
 
+  // The initial layout with greedy routing (control walks the routing path),
+  // perturbations of it, and, when the layout evolves, random permutations
   initializePopulation() {
-    const pop: any[] = [];
-    const validSwaps = this.getValidSwaps();
-
-    for (let i = 0; i < this.config.populationSize; i++) {
-      const length = Math.floor(Math.random() * this.config.maxSwapsPerChromosome) + 1;
-      const chromosome: any[] = [];
-
-      for (let j = 0; j < length; j++) {
-        chromosome.push(validSwaps[Math.floor(Math.random() * validSwaps.length)]);
+    const greedy = this.codec.greedy(this.initialLayout);
+    const pop: any[] = [greedy];
+
+    while (pop.length < this.config.populationSize) {
+      const layout = [...greedy.layout];
+      if (this.config.evolveLayout) {
+        if (pop.length % 2 === 0) {
+          this.rng.shuffle(layout);
+        } else {
+          const moves = this.rng.int(3) + 1;
+          for (let i = 0; i < moves; i++) this.codec.transpose(layout, this.rng);
+        }
       }
-
-      pop.push(chromosome);
+      pop.push({ layout, routes: this.codec.randomRoutes(this.rng) });
     }
 
     return pop;
   }
 
-  getValidSwaps() {
-    const swaps: number[][] = [];
-    Object.keys(this.hardware.graph).forEach(q1Str => {
-      const q1 = parseInt(q1Str, 10);
-      this.hardware.graph[q1].forEach((q2: number) => {
-        if (q1 < q2) swaps.push([q1, q2]);
-      });
-    });
-    return swaps;
-  }
-
-  chromosomeKey(chromosome: any[]) {
-    return chromosome.map(([a, b]: any) => `${a}-${b}`).join(',');
-  }
-
-  evaluateFitness(chromosome: any[]) {
-    const result = this.applyChromosome(chromosome);
-    return -(result.insertedSwaps * 10 + result.depth + result.distancePenalty * 3);
-  }
-
-  applyChromosome(chromosome: any[]) {
-    const steps: any[] = [];
-    const layout = Array.from({ length: this.circuit.nQubits }, (_, i) => i);
-    let insertedSwaps = 0;
-    let depth = 0;
-    let distancePenalty = 0;
-    let swapIndex = 0;
-
-    this.circuit.gates.forEach((gate: any) => {
-      if (gate.qubits.length === 2) {
-        const [c, t] = gate.qubits;
-        let physC = layout[c];
-        let physT = layout[t];
-
-        while (!this.hardware.isConnected(physC, physT) && swapIndex < chromosome.length) {
-          const [swapQ1, swapQ2] = chromosome[swapIndex];
-          const logQ1 = layout.indexOf(swapQ1);
-          const logQ2 = layout.indexOf(swapQ2);
-
-          if (logQ1 !== -1 && logQ2 !== -1) {
-            [layout[logQ1], layout[logQ2]] = [layout[logQ2], layout[logQ1]];
-
-            steps.push({
-              type: 'swap',
-              physical: [swapQ1, swapQ2],
-              logical: [logQ1, logQ2],
-              layout: [...layout],
-              inserted: true,
-              depth: depth++
-            });
-
-            insertedSwaps++;
-          }
-
-          swapIndex++;
-          physC = layout[c];
-          physT = layout[t];
-        }
-
-        distancePenalty += this.hardware.distance(layout[c], layout[t]) - 1;
-      }
-
-      steps.push({
-        type: gate.type,
-        qubits: gate.qubits.map((q: number) => layout[q]),
-        logical: gate.qubits,
-        layout: [...layout],
-        inserted: false,
-        depth: depth++
-      });
-    });
-
-    return { steps, insertedSwaps, depth, distancePenalty, finalLayout: layout };
+  evaluateFitness(genome: any) {
+    return -this.costModel.evaluate(this.codec.decode(genome), this.hardware);
   }
 
   tournamentSelect(evaluated: any[]) {
     const tournament: any[] = [];
     for (let i = 0; i < this.config.tournamentSize; i++) {
-      tournament.push(evaluated[Math.floor(Math.random() * evaluated.length)]);
+      tournament.push(this.rng.pick(evaluated));
     }
-    return tournament.sort((a, b) => b.fitness - a.fitness)[0].chromosome;
+    return tournament.sort((a, b) => b.fitness - a.fitness)[0].genome;
   }
 
-  crossover(p1: any[], p2: any[]) {
-    if (p1.length === 0 || p2.length === 0) return p1.length > 0 ? [...p1] : [...p2];
-    const point = Math.floor(Math.random() * Math.min(p1.length, p2.length));
-    return [...p1.slice(0, point), ...p2.slice(point)];
+  // PMX on the layout permutation, uniform crossover on the routing genes
+  crossover(p1: any, p2: any) {
+    const layout = this.config.evolveLayout ? this.pmx(p1.layout, p2.layout) : [...p1.layout];
+    const routes = p1.routes.map((gene: number[], i: number) => [...(this.rng.next() < 0.5 ? gene : p2.routes[i])]);
+    return { layout, routes };
   }
 
-  mutate(chromosome: any[]) {
-    const mutated = [...chromosome];
-    const validSwaps = this.getValidSwaps();
-
-    const mutationType = Math.random();
-
-    if (mutationType < 0.4 && mutated.length > 0) {
-      const idx = Math.floor(Math.random() * mutated.length);
-      mutated[idx] = validSwaps[Math.floor(Math.random() * validSwaps.length)];
-    } else if (mutationType < 0.7 && mutated.length < this.config.maxSwapsPerChromosome) {
-      mutated.push(validSwaps[Math.floor(Math.random() * validSwaps.length)]);
-    } else if (mutated.length > 1) {
-      mutated.splice(Math.floor(Math.random() * mutated.length), 1);
+  // Partially mapped crossover: the child takes a segment of p1 and fills the
+  // rest from p2, following the segment's mapping to stay a permutation
+  pmx(p1: number[], p2: number[]) {
+    const size = p1.length;
+    if (size < 2) return [...p1];
+    let lo = this.rng.int(size);
+    let hi = this.rng.int(size);
+    if (lo > hi) [lo, hi] = [hi, lo];
+
+    const child: number[] = new Array(size);
+    const position = new Map<number, number>();
+    for (let i = lo; i <= hi; i++) {
+      child[i] = p1[i];
+      position.set(p1[i], i);
+    }
+    for (let i = 0; i < size; i++) {
+      if (i >= lo && i <= hi) continue;
+      let gene = p2[i];
+      while (position.has(gene)) gene = p2[position.get(gene) as number];
+      child[i] = gene;
     }
+    return child;
+  }
 
-    return mutated;
+  mutate(genome: any, rate: number) {
+    const layout = [...genome.layout];
+    if (this.config.evolveLayout && this.rng.next() < rate) this.codec.transpose(layout, this.rng);
+    const routes = genome.routes.map((gene: number[]) => (this.rng.next() < rate / 2 ? [this.rng.next(), this.rng.next()] : gene));
+    return { layout, routes };
   }
 }
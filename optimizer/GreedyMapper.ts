@@ -1,3 +1,6 @@
+import { scheduleSteps } from '../compiler/DAGCircuit';
+import { fixDirections } from '../compiler/DirectionFixer';
+
 export class GreedyMapper {
   circuit: any;
   hardware: any;
@@ -9,11 +12,11 @@ export class GreedyMapper {
     this.name = 'Greedy Baseline';
   }
 
-  map() {
+  map(initialLayout?: number[]) {
     const steps: any[] = [];
-    const layout = Array.from({ length: this.circuit.nQubits }, (_, i) => i);
+    const layout = initialLayout ? [...initialLayout] : Array.from({ length: this.circuit.nQubits }, (_, i) => i);
+    const startLayout = [...layout];
     let insertedSwaps = 0;
-    let depth = 0;
     let distancePenalty = 0;
 
     this.circuit.gates.forEach((gate: any) => {
@@ -23,22 +26,22 @@ export class GreedyMapper {
         let physT = layout[t];
 
         while (!this.hardware.isConnected(physC, physT)) {
-          const path = this.hardware.getShortestPath(physC, physT);
+          const path = this.hardware.getRoutingPath(physC, physT);
           if (path.length < 2) break;
 
           const [swapQ1, swapQ2] = [path[0], path[1]];
           const logQ1 = layout.indexOf(swapQ1);
           const logQ2 = layout.indexOf(swapQ2);
 
-          [layout[logQ1], layout[logQ2]] = [layout[logQ2], layout[logQ1]];
+          if (logQ1 !== -1) layout[logQ1] = swapQ2;
+          if (logQ2 !== -1) layout[logQ2] = swapQ1;
 
           steps.push({
             type: 'swap',
             physical: [swapQ1, swapQ2],
             logical: [logQ1, logQ2],
             layout: [...layout],
-            inserted: true,
-            depth: depth++
+            inserted: true
           });
 
           insertedSwaps++;
@@ -54,17 +57,19 @@ export class GreedyMapper {
         type: gate.type,
         qubits: gate.qubits.map((q: number) => layout[q]),
         logical: gate.qubits,
+        params: gate.params,
         layout: [...layout],
-        inserted: false,
-        depth: depth++
+        inserted: false
       });
     });
 
+    const routed = fixDirections(steps, this.hardware);
     return {
-      steps,
+      steps: routed,
       insertedSwaps,
-      depth,
+      depth: scheduleSteps(routed),
       distancePenalty,
+      initialLayout: startLayout,
       finalLayout: layout
     };
   }
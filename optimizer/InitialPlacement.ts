@@ -0,0 +1,281 @@
+import { InteractionGraph } from '../compiler/InteractionGraph';
+import { SeededRandom, randomSeed } from './SeededRandom';
+
+export const PLACEMENT_STRATEGIES: Record<string, string> = {
+  identity: 'Identity',
+  dense: 'Dense Subgraph',
+  interaction: 'Interaction-Weighted',
+  isomorphism: 'Subgraph Isomorphism',
+  random: 'Random Restarts'
+};
+
+// Chooses a starting layout (layout[logical] = physical) for any mapper from
+// the circuit's InteractionGraph and the hardware coupling graph.
+export class InitialPlacement {
+  circuit: any;
+  hardware: any;
+  config: any;
+  interactionGraph: InteractionGraph;
+  physicalQubits: number[];
+  interactions: { q1: number; q2: number; count: number }[];
+
+  constructor(circuit: any, hardware: any, config: any = {}) {
+    this.circuit = circuit;
+    this.hardware = hardware;
+    this.config = {
+      restarts: config.restarts || 20,
+      maxSearchNodes: config.maxSearchNodes || 100000,
+      seed: config.seed ?? randomSeed()
+    };
+    this.interactionGraph = new InteractionGraph(circuit);
+    this.physicalQubits = Object.keys(hardware.graph).map(q => parseInt(q, 10));
+    this.interactions = [...this.interactionGraph.graph.entries()].map(([key, edge]) => {
+      const [q1, q2] = key.split('-').map(Number);
+      return { q1, q2, count: edge.count };
+    });
+
+    if (this.physicalQubits.length < circuit.nQubits) {
+      throw new Error(`Circuit needs ${circuit.nQubits} qubits but the hardware only has ${this.physicalQubits.length}`);
+    }
+  }
+
+  place(strategy = 'identity') {
+    switch (strategy) {
+      case 'identity': return this.identity();
+      case 'dense': return this.dense();
+      case 'interaction': return this.interactionWeighted();
+      case 'isomorphism': return this.isomorphism() || this.interactionWeighted();
+      case 'random': return this.randomRestarts();
+      default: throw new Error(`Unknown placement strategy '${strategy}'`);
+    }
+  }
+
+  // Sum over interacting pairs of count * extra hops needed to make them adjacent
+  layoutCost(layout: number[]) {
+    return this.interactions.reduce(
+      (sum, { q1, q2, count }) => sum + count * (this.hardware.distance(layout[q1], layout[q2]) - 1),
+      0
+    );
+  }
+
+  identity() {
+    return Array.from({ length: this.circuit.nQubits }, (_, i) => i);
+  }
+
+  logicalWeight(q: number) {
+    return this.interactions.reduce((sum, e) => sum + (e.q1 === q || e.q2 === q ? e.count : 0), 0);
+  }
+
+  logicalOrderByWeight() {
+    return this.identity().sort((a, b) => this.logicalWeight(b) - this.logicalWeight(a));
+  }
+
+  degree(p: number) {
+    return (this.hardware.graph[p] || []).length;
+  }
+
+  // Most connected BFS-grown region of n physical qubits; the busiest logical
+  // qubits go to the best connected physical qubits inside it.
+  dense() {
+    const n = this.circuit.nQubits;
+    let bestRegion: number[] = [];
+    let bestEdges = -1;
+
+    this.physicalQubits.forEach(start => {
+      const region: number[] = [];
+      const seen = new Set([start]);
+      const queue = [start];
+      while (queue.length > 0 && region.length < n) {
+        const p = queue.shift() as number;
+        region.push(p);
+        (this.hardware.graph[p] || []).forEach((nb: number) => {
+          if (!seen.has(nb)) {
+            seen.add(nb);
+            queue.push(nb);
+          }
+        });
+      }
+      if (region.length < n) return;
+
+      const members = new Set(region);
+      const edges = region.reduce(
+        (sum, p) => sum + (this.hardware.graph[p] || []).filter((nb: number) => members.has(nb)).length,
+        0
+      );
+      if (edges > bestEdges) {
+        bestEdges = edges;
+        bestRegion = region;
+      }
+    });
+
+    if (bestRegion.length < n) return this.identity();
+
+    const members = new Set(bestRegion);
+    const innerDegree = (p: number) => (this.hardware.graph[p] || []).filter((nb: number) => members.has(nb)).length;
+    const physical = [...bestRegion].sort((a, b) => innerDegree(b) - innerDegree(a));
+
+    const layout = new Array(n);
+    this.logicalOrderByWeight().forEach((q, i) => { layout[q] = physical[i]; });
+    return layout;
+  }
+
+  // Greedy embedding: place qubits in order of attachment to already placed
+  // ones, each on the free physical qubit minimising weighted distance.
+  interactionWeighted() {
+    const n = this.circuit.nQubits;
+    const layout = new Array(n).fill(-1);
+    const used = new Set<number>();
+    const order = this.logicalOrderByWeight();
+
+    // Seed: busiest logical qubit on the most central physical qubit
+    const centrality = (p: number) => this.physicalQubits.reduce((sum, o) => sum + this.hardware.distance(p, o), 0);
+    const seed = [...this.physicalQubits].sort((a, b) => centrality(a) - centrality(b) || this.degree(b) - this.degree(a))[0];
+    layout[order[0]] = seed;
+    used.add(seed);
+
+    for (let placed = 1; placed < n; placed++) {
+      let next = -1;
+      let nextAttachment = -1;
+      order.forEach(q => {
+        if (layout[q] !== -1) return;
+        const attachment = this.interactions.reduce((sum, e) => {
+          if (e.q1 === q && layout[e.q2] !== -1) return sum + e.count;
+          if (e.q2 === q && layout[e.q1] !== -1) return sum + e.count;
+          return sum;
+        }, 0);
+        if (attachment > nextAttachment) {
+          next = q;
+          nextAttachment = attachment;
+        }
+      });
+
+      let best = -1;
+      let bestScore = Infinity;
+      this.physicalQubits.forEach(p => {
+        if (used.has(p)) return;
+        let score = 0;
+        this.interactions.forEach(e => {
+          if (e.q1 === next && layout[e.q2] !== -1) score += e.count * this.hardware.distance(p, layout[e.q2]);
+          if (e.q2 === next && layout[e.q1] !== -1) score += e.count * this.hardware.distance(p, layout[e.q1]);
+        });
+        // Unattached qubits stay near the placed cluster
+        if (nextAttachment === 0) score = Math.min(...[...used].map(u => this.hardware.distance(p, u)));
+        score -= this.degree(p) * 1e-3;
+        if (score < bestScore) {
+          bestScore = score;
+          best = p;
+        }
+      });
+
+      layout[next] = best;
+      used.add(best);
+    }
+
+    return layout;
+  }
+
+  // Backtracking search for a layout where every interacting pair is adjacent.
+  // Returns null when none exists or the node budget runs out.
+  isomorphism() {
+    const n = this.circuit.nQubits;
+    const neighbours: Set<number>[] = Array.from({ length: n }, () => new Set<number>());
+    this.interactions.forEach(({ q1, q2 }) => {
+      neighbours[q1].add(q2);
+      neighbours[q2].add(q1);
+    });
+
+    // Visit logical qubits in BFS order from the busiest so each has placed neighbours
+    const order: number[] = [];
+    const seen = new Set<number>();
+    this.logicalOrderByWeight().forEach(root => {
+      if (seen.has(root)) return;
+      seen.add(root);
+      const queue = [root];
+      while (queue.length > 0) {
+        const q = queue.shift() as number;
+        order.push(q);
+        [...neighbours[q]]
+          .sort((a, b) => neighbours[b].size - neighbours[a].size)
+          .forEach(nb => {
+            if (!seen.has(nb)) {
+              seen.add(nb);
+              queue.push(nb);
+            }
+          });
+      }
+    });
+
+    const layout = new Array(n).fill(-1);
+    const used = new Set<number>();
+    let nodes = 0;
+
+    const search = (depth: number): boolean => {
+      if (depth === n) return true;
+      if (++nodes > this.config.maxSearchNodes) return false;
+
+      const q = order[depth];
+      const placedNeighbours = [...neighbours[q]].filter(nb => layout[nb] !== -1);
+      const candidates = placedNeighbours.length > 0
+        ? (this.hardware.graph[layout[placedNeighbours[0]]] || [])
+        : this.physicalQubits;
+
+      for (const p of candidates) {
+        if (used.has(p) || this.degree(p) < neighbours[q].size) continue;
+        if (!placedNeighbours.every(nb => this.hardware.isConnected(p, layout[nb]))) continue;
+
+        layout[q] = p;
+        used.add(p);
+        if (search(depth + 1)) return true;
+        layout[q] = -1;
+        used.delete(p);
+      }
+      return false;
+    };
+
+    return search(0) ? layout : null;
+  }
+
+  // Random layouts improved by pairwise-exchange hill climbing; keeps the best
+  randomRestarts() {
+    const n = this.circuit.nQubits;
+    const rng = new SeededRandom(this.config.seed);
+    let best = this.identity();
+    let bestCost = this.layoutCost(best);
+
+    for (let r = 0; r < this.config.restarts; r++) {
+      const shuffled = rng.shuffle([...this.physicalQubits]);
+      const layout = shuffled.slice(0, n);
+      const free = shuffled.slice(n);
+      let cost = this.layoutCost(layout);
+
+      let improved = true;
+      while (improved) {
+        improved = false;
+        for (let q = 0; q < n; q++) {
+          // Exchange with another logical qubit or move to a free physical qubit
+          for (let o = 0; o < n + free.length; o++) {
+            if (o === q) continue;
+            const trial = [...layout];
+            if (o < n) [trial[q], trial[o]] = [trial[o], trial[q]];
+            else trial[q] = free[o - n];
+
+            const trialCost = this.layoutCost(trial);
+            if (trialCost < cost) {
+              if (o >= n) free[o - n] = layout[q];
+              layout.splice(0, n, ...trial);
+              cost = trialCost;
+              improved = true;
+            }
+          }
+        }
+      }
+
+      if (cost < bestCost) {
+        best = [...layout];
+        bestCost = cost;
+      }
+    }
+
+    return best;
+  }
+}
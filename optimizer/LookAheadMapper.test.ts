@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BENCHMARKS } from '../compiler/Benchmarks';
+import { HardwareTopology } from '../hardware/Topology';
+import { Calibration } from '../hardware/Calibration';
+import { LookAheadMapper } from './LookAheadMapper';
+import { SeededRandom } from './SeededRandom';
+
+function calibrated(topology: string, error: () => number) {
+  const hardware = HardwareTopology.forQubits(topology, 9);
+  const couplers: any[] = [];
+  Object.keys(hardware.graph).forEach(a => hardware.graph[a].forEach((b: number) => {
+    if (+a < b) couplers.push({ qubits: [+a, b], error: error() });
+  }));
+  hardware.setCalibration(new Calibration({ couplers }));
+  return hardware;
+}
+
+const swaps = (circuit: any, hardware: any, objective: string) =>
+  new LookAheadMapper(circuit, hardware, 3, { objective }).map().insertedSwaps;
+
+test('ESP mode inserts no more SWAPs than weighted mode on a uniform calibration', () => {
+  ['grid2d', 'lnn', 'heavyhex'].forEach(topology => ['qft', 'grover'].forEach(benchmark => {
+    const hardware = calibrated(topology, () => 0.01);
+    const circuit = BENCHMARKS[benchmark](9);
+    assert.ok(swaps(circuit, hardware, 'esp') <= swaps(circuit, hardware, 'weighted'), `${benchmark} / ${topology}`);
+  }));
+});
+
+test('ESP mode does not shuttle over a cheap coupler instead of routing', () => {
+  const rng = new SeededRandom(1);
+  const hardware = calibrated('grid2d', () => 0.002 + rng.next() * 0.05);
+  hardware.setErrorAware(true);
+  const circuit = BENCHMARKS.qft(9);
+  assert.ok(swaps(circuit, hardware, 'esp') <= swaps(circuit, hardware, 'weighted'));
+});
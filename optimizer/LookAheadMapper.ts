@@ -1,4 +1,6 @@
 import { InteractionGraph } from '../compiler/InteractionGraph';
+import { scheduleSteps } from '../compiler/DAGCircuit';
+import { fixDirections, reversalCost } from '../compiler/DirectionFixer';
 
 export class LookAheadMapper {
   circuit: any;
@@ -6,45 +8,54 @@ export class LookAheadMapper {
   lookAhead: number;
   name: string;
   interactionGraph: InteractionGraph;
+  objective: string;
 
-  constructor(circuit: any, hardware: any, lookAhead = 3) {
+  constructor(circuit: any, hardware: any, lookAhead = 3, config: any = {}) {
     this.circuit = circuit;
     this.hardware = hardware;
     this.lookAhead = lookAhead;
     this.name = `Look-Ahead (k=${lookAhead})`;
     this.interactionGraph = new InteractionGraph(circuit);
+    this.objective = config.objective || 'weighted';
   }
 
-  map() {
+  map(initialLayout?: number[]) {
     const steps: any[] = [];
-    const layout = Array.from({ length: this.circuit.nQubits }, (_, i) => i);
+    const layout = initialLayout ? [...initialLayout] : Array.from({ length: this.circuit.nQubits }, (_, i) => i);
+    const startLayout = [...layout];
     let insertedSwaps = 0;
-    let depth = 0;
     let distancePenalty = 0;
+    const maxHeuristicSwaps = 2 * Object.keys(this.hardware.graph).length;
 
     this.circuit.gates.forEach((gate: any, gateIdx: number) => {
       if (gate.qubits.length === 2) {
         const [c, t] = gate.qubits;
         let physC = layout[c];
         let physT = layout[t];
+        let gateSwaps = 0;
 
         while (!this.hardware.isConnected(physC, physT)) {
-          const bestSwap = this.findBestSwap(layout, gateIdx);
-          if (!bestSwap) break;
+          // Fall back to walking the routing path if the heuristic oscillates
+          let bestSwap = gateSwaps++ < maxHeuristicSwaps ? this.findBestSwap(layout, gateIdx) : null;
+          if (!bestSwap) {
+            const path = this.hardware.getRoutingPath(physC, physT);
+            if (path.length < 2) break;
+            bestSwap = [path[0], path[1]];
+          }
 
           const [swapQ1, swapQ2] = bestSwap;
           const logQ1 = layout.indexOf(swapQ1);
           const logQ2 = layout.indexOf(swapQ2);
 
-          [layout[logQ1], layout[logQ2]] = [layout[logQ2], layout[logQ1]];
+          if (logQ1 !== -1) layout[logQ1] = swapQ2;
+          if (logQ2 !== -1) layout[logQ2] = swapQ1;
 
           steps.push({
             type: 'swap',
             physical: [swapQ1, swapQ2],
             logical: [logQ1, logQ2],
             layout: [...layout],
-            inserted: true,
-            depth: depth++
+            inserted: true
           });
 
           insertedSwaps++;
@@ -59,17 +70,19 @@ export class LookAheadMapper {
         type: gate.type,
         qubits: gate.qubits.map((q: number) => layout[q]),
         logical: gate.qubits,
+        params: gate.params,
         layout: [...layout],
-        inserted: false,
-        depth: depth++
+        inserted: false
       });
     });
 
+    const routed = fixDirections(steps, this.hardware);
     return {
-      steps,
+      steps: routed,
       insertedSwaps,
-      depth,
+      depth: scheduleSteps(routed),
       distancePenalty,
+      initialLayout: startLayout,
       finalLayout: layout
     };
   }
@@ -77,7 +90,15 @@ export class LookAheadMapper {
   findBestSwap(layout: number[], currentGateIdx: number) {
     const upcoming = this.interactionGraph.getUpcomingInteractions(currentGateIdx, this.lookAhead);
 
+    // In ESP mode a SWAP that brings the current gate a hop closer always beats
+    // one that does not; log-success costs only rank SWAPs of equal progress.
+    // Otherwise a cheap coupler swapped back and forth outscores real progress.
+    const [front] = upcoming;
+    const frontHops = (l: number[]) => this.hardware.distance(l[front.qubits[0]], l[front.qubits[1]]);
+    const startHops = frontHops(layout);
+
     let bestSwap: number[] | null = null;
+    let bestProgress = -Infinity;
     let bestScore = -Infinity;
 
     Object.keys(this.hardware.graph).forEach(q1Str => {
@@ -85,18 +106,27 @@ export class LookAheadMapper {
       this.hardware.graph[q1].forEach((q2: number) => {
         if (q1 >= q2) return;
 
-        const testLayout = [...layout];
-        const log1 = testLayout.indexOf(q1);
-        const log2 = testLayout.indexOf(q2);
-        [testLayout[log1], testLayout[log2]] = [testLayout[log2], testLayout[log1]];
+        const testLayout = layout.map(p => (p === q1 ? q2 : p === q2 ? q1 : p));
 
         let score = 0;
-        upcoming.forEach(({ qubits, weight }: any) => {
-          const dist = this.hardware.distance(testLayout[qubits[0]], testLayout[qubits[1]]);
-          score -= dist * weight;
-        });
+        let progress = 0;
+        if (this.objective === 'esp') {
+          progress = startHops - frontHops(testLayout);
+          // Log-success cost of this SWAP plus that of the CX paths it leaves behind
+          score -= 3 * this.hardware.couplerLogCost(q1, q2);
+          upcoming.forEach(({ qubits, weight }: any) => {
+            score -= 3 * this.hardware.errorDistance(testLayout[qubits[0]], testLayout[qubits[1]]) * weight;
+          });
+        } else {
+          upcoming.forEach(({ type, qubits, weight }: any) => {
+            const [p1, p2] = [testLayout[qubits[0]], testLayout[qubits[1]]];
+            const dist = this.hardware.routingDistance(p1, p2) + reversalCost(this.hardware, type, p1, p2);
+            score -= dist * weight;
+          });
+        }
 
-        if (score > bestScore) {
+        if (progress > bestProgress || (progress === bestProgress && score > bestScore)) {
+          bestProgress = progress;
           bestScore = score;
           bestSwap = [q1, q2];
         }
@@ -0,0 +1,113 @@
+import { GreedyMapper } from './GreedyMapper';
+import { LookAheadMapper } from './LookAheadMapper';
+import { SabreMapper } from './SabreMapper';
+import { GeneticSwapOptimizer } from './GeneticSwapOptimizer';
+import { SimulatedAnnealingMapper, TEMPERATURE_SCHEDULES } from './SimulatedAnnealingMapper';
+import { ExactMapper, EXACT_MAX_QUBITS } from './ExactMapper';
+import { MAPPERS, registerMapper, createMapper, resolveConfig } from './MapperRegistry';
+
+export { MAPPERS, registerMapper, createMapper, resolveConfig };
+
+// Built-in mappers. Every consumer imports the registry through this module,
+// and the workers import it too, so a third-party mapper registered here runs
+// in the UI, the worker pools, the sweeps and the CLI alike.
+registerMapper({
+  id: 'greedy',
+  label: 'Greedy Baseline',
+  description: 'Walks each blocked gate along a shortest path',
+  configSchema: [],
+  create: (circuit, hardware) => new GreedyMapper(circuit, hardware)
+});
+
+registerMapper({
+  id: 'lookahead',
+  label: 'Look-Ahead',
+  description: 'Picks the SWAP that most reduces the distance of the next k gates',
+  configSchema: [
+    { key: 'lookAhead', label: 'Look-ahead window (k)', type: 'number', default: 3, min: 1, max: 20, integer: true }
+  ],
+  presets: {
+    'Short window': { lookAhead: 1 },
+    'Long window': { lookAhead: 8 }
+  },
+  create: (circuit, hardware, { objective, config }) => new LookAheadMapper(circuit, hardware, config.lookAhead, { objective })
+});
+
+registerMapper({
+  id: 'sabre',
+  label: 'SABRE',
+  description: 'Front-layer routing with an extended-set look-ahead and layout refinement',
+  configSchema: [
+    { key: 'extendedSetSize', label: 'Extended set size', type: 'number', default: 20, min: 1, max: 200, integer: true },
+    { key: 'extendedSetWeight', label: 'Extended set weight', type: 'number', default: 0.5, min: 0, max: 1, step: 0.05 },
+    { key: 'decayDelta', label: 'Decay delta', type: 'number', default: 0.001, min: 0, max: 0.1, step: 0.001 },
+    { key: 'decayResetInterval', label: 'Decay reset interval', type: 'number', default: 5, min: 1, max: 100, integer: true },
+    { key: 'layoutIterations', label: 'Layout iterations', type: 'number', default: 1, min: 0, max: 10, integer: true }
+  ],
+  presets: {
+    'No layout refinement': { layoutIterations: 0 },
+    'Deep refinement': { layoutIterations: 3, extendedSetSize: 40 }
+  },
+  create: (circuit, hardware, { config }) => new SabreMapper(circuit, hardware, config)
+});
+
+registerMapper({
+  id: 'exact',
+  label: 'Exact (A*)',
+  description: 'A* search for the minimum SWAP count from the initial layout',
+  maxQubits: EXACT_MAX_QUBITS,
+  configSchema: [
+    { key: 'maxNodes', label: 'Node budget', type: 'number', default: 100000, min: 100, max: 10000000, integer: true },
+    { key: 'timeLimitMs', label: 'Time limit (ms)', type: 'number', default: 2000, min: 10, max: 600000, integer: true }
+  ],
+  presets: {
+    Quick: { maxNodes: 10000, timeLimitMs: 250 },
+    Patient: { maxNodes: 1000000, timeLimitMs: 20000 }
+  },
+  create: (circuit, hardware, { config }) => new ExactMapper(circuit, hardware, config)
+});
+
+registerMapper({
+  id: 'genetic',
+  label: 'Genetic Algorithm',
+  description: 'Evolves initial layouts and per-gate routing choices',
+  stochastic: true,
+  configSchema: [
+    { key: 'populationSize', label: 'Population size', type: 'number', default: 30, min: 2, max: 1000, integer: true },
+    { key: 'generations', label: 'Generations', type: 'number', default: 50, min: 1, max: 10000, integer: true },
+    { key: 'tournamentSize', label: 'Tournament size', type: 'number', default: 3, min: 1, max: 50, integer: true },
+    { key: 'eliteRatio', label: 'Elite ratio', type: 'number', default: 0.2, min: 0.01, max: 1, step: 0.05 },
+    { key: 'initialMutationRate', label: 'Initial mutation rate', type: 'number', default: 0.3, min: 0.01, max: 1, step: 0.05 },
+    { key: 'minMutationRate', label: 'Minimum mutation rate', type: 'number', default: 0.05, min: 0.01, max: 1, step: 0.01 },
+    { key: 'plateauThreshold', label: 'Plateau threshold (generations)', type: 'number', default: 10, min: 1, max: 1000, integer: true },
+    { key: 'evolveLayout', label: 'Evolve initial layout', type: 'boolean', default: true }
+  ],
+  presets: {
+    Fast: { populationSize: 16, generations: 20 },
+    Thorough: { populationSize: 80, generations: 200, plateauThreshold: 25 },
+    'Routing only': { evolveLayout: false }
+  },
+  create: (circuit, hardware, { objective, seed, onProgress, config }) =>
+    new GeneticSwapOptimizer(circuit, hardware, { ...config, objective, seed, onProgress })
+});
+
+registerMapper({
+  id: 'annealing',
+  label: 'Simulated Annealing',
+  description: 'Anneals initial layouts and routing choices',
+  stochastic: true,
+  configSchema: [
+    { key: 'iterations', label: 'Iterations', type: 'number', default: 1000, min: 1, max: 1000000, integer: true },
+    { key: 'initialTemperature', label: 'Initial temperature', type: 'number', default: 10, min: 0.001, max: 10000, step: 0.5 },
+    { key: 'finalTemperature', label: 'Final temperature', type: 'number', default: 0.05, min: 0.001, max: 10000, step: 0.01 },
+    { key: 'schedule', label: 'Schedule', type: 'select', default: 'geometric', options: TEMPERATURE_SCHEDULES },
+    { key: 'annealRoutes', label: 'Anneal routing choices', type: 'boolean', default: true }
+  ],
+  presets: {
+    Fast: { iterations: 300 },
+    Thorough: { iterations: 5000, initialTemperature: 20 },
+    'Layout only': { annealRoutes: false }
+  },
+  create: (circuit, hardware, { objective, seed, onProgress, config }) =>
+    new SimulatedAnnealingMapper(circuit, hardware, { ...config, objective, seed, onProgress })
+});
@@ -0,0 +1,67 @@
+import { MAPPERS, resolveConfig } from './MapperRegistry';
+
+export const DEFAULT_PRESET = 'Default';
+
+// Named mapper configs: the defaults, the plugin's built-in presets and the
+// presets saved by the user. Saved presets persist to `storage` (localStorage
+// in the UI) as { mapperId: { name: config } }.
+export class PresetStore {
+  storage: any;
+  key: string;
+  saved: Record<string, Record<string, any>>;
+
+  constructor(storage: any = null, key = 'quantum-mapper-presets') {
+    this.storage = storage;
+    this.key = key;
+    this.saved = {};
+    try {
+      const data = storage ? JSON.parse(storage.getItem(key) || '{}') : {};
+      if (data && typeof data === 'object') this.saved = data;
+    } catch {
+      // Unreadable storage starts empty
+    }
+  }
+
+  // [{ name, config, builtin }] with full configs, defaults first
+  list(mapperId: string) {
+    const plugin = MAPPERS[mapperId];
+    if (!plugin) return [];
+    const saved = this.saved[mapperId] || {};
+    return [
+      { name: DEFAULT_PRESET, config: resolveConfig(mapperId), builtin: true },
+      ...Object.entries(plugin.presets || {}).map(([name, config]) => ({ name, config: resolveConfig(mapperId, config), builtin: true })),
+      ...Object.keys(saved).sort().flatMap(name => {
+        try {
+          return [{ name, config: resolveConfig(mapperId, saved[name]), builtin: false }];
+        } catch {
+          // Saved against an older schema; hidden rather than failing the list
+          return [];
+        }
+      })
+    ];
+  }
+
+  get(mapperId: string, name: string) {
+    return this.list(mapperId).find(preset => preset.name === name) || null;
+  }
+
+  save(mapperId: string, name: string, config: Record<string, any>) {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Preset name is empty');
+    const existing = this.get(mapperId, trimmed);
+    if (existing && existing.builtin) throw new Error(`'${trimmed}' is a built-in preset`);
+    this.saved[mapperId] = { ...(this.saved[mapperId] || {}), [trimmed]: resolveConfig(mapperId, config) };
+    this.persist();
+    return trimmed;
+  }
+
+  remove(mapperId: string, name: string) {
+    if (!this.saved[mapperId]) return;
+    delete this.saved[mapperId][name];
+    this.persist();
+  }
+
+  persist() {
+    if (this.storage) this.storage.setItem(this.key, JSON.stringify(this.saved));
+  }
+}
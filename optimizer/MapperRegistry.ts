@@ -0,0 +1,100 @@
+// Result every mapper returns. Mappers may add their own fields (seed,
+// convergence, optimal, ...), which callers pass through untouched.
+export interface MappingResult {
+  steps: any[];
+  insertedSwaps: number;
+  depth: number;
+  distancePenalty: number;
+  initialLayout: number[];
+  finalLayout: number[];
+  [extra: string]: any;
+}
+
+export interface Mapper {
+  name: string;
+  map(initialLayout?: number[]): MappingResult;
+}
+
+// One tunable setting of a mapper; settings forms and validation are built from these
+export interface ConfigField {
+  key: string;
+  label: string;
+  type: 'number' | 'boolean' | 'select';
+  default: any;
+  min?: number;
+  max?: number;
+  step?: number;
+  integer?: boolean;
+  // select: value -> label
+  options?: Record<string, string>;
+}
+
+export interface MapperOptions {
+  objective?: string;
+  seed?: number;
+  // Iterative mappers report (done, total, best cost)
+  onProgress?: (done: number, total: number, best: number) => void;
+  // Values for the plugin's configSchema, defaults filled in
+  config?: Record<string, any>;
+}
+
+export interface MapperPlugin {
+  id: string;
+  label: string;
+  description?: string;
+  // Varies with options.seed; comparisons run it once per seed
+  stochastic?: boolean;
+  // Largest circuit included in comparisons by default
+  maxQubits?: number;
+  configSchema: ConfigField[];
+  // Named partial configs offered next to the defaults
+  presets?: Record<string, Record<string, any>>;
+  create(circuit: any, hardware: any, options: MapperOptions): Mapper;
+}
+
+// Registered mappers by id, in registration order. The UI dropdown, the
+// comparison table, the workers, the sweeps and the CLI all list mappers from here.
+export const MAPPERS: Record<string, MapperPlugin> = {};
+
+export function registerMapper(plugin: MapperPlugin) {
+  if (!plugin || typeof plugin.id !== 'string' || !/^[a-z][a-z0-9_-]*$/i.test(plugin.id)) {
+    throw new Error(`Mapper id '${plugin?.id}' must start with a letter and use only letters, digits, '-' and '_'`);
+  }
+  if (MAPPERS[plugin.id]) throw new Error(`Mapper '${plugin.id}' is already registered`);
+  if (typeof plugin.create !== 'function') throw new Error(`Mapper '${plugin.id}' has no create function`);
+  MAPPERS[plugin.id] = { ...plugin, label: plugin.label || plugin.id, configSchema: plugin.configSchema || [] };
+  return MAPPERS[plugin.id];
+}
+
+// The plugin's defaults overridden by `values`; unknown keys and values outside
+// the schema throw
+export function resolveConfig(id: string, values: Record<string, any> = {}) {
+  const plugin = MAPPERS[id];
+  if (!plugin) throw new Error(`Unknown mapper '${id}'`);
+  Object.keys(values).forEach(key => {
+    if (!plugin.configSchema.some(field => field.key === key)) throw new Error(`${plugin.label}: unknown setting '${key}'`);
+  });
+
+  const config: Record<string, any> = {};
+  plugin.configSchema.forEach(field => {
+    const value = values[field.key] ?? field.default;
+    if (field.type === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`${plugin.label}: ${field.label} must be a number`);
+      if (field.integer && !Number.isInteger(value)) throw new Error(`${plugin.label}: ${field.label} must be an integer`);
+      if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+        throw new Error(`${plugin.label}: ${field.label} must be between ${field.min ?? '-inf'} and ${field.max ?? 'inf'}`);
+      }
+    } else if (field.type === 'boolean') {
+      if (typeof value !== 'boolean') throw new Error(`${plugin.label}: ${field.label} must be true or false`);
+    } else if (!field.options || !(value in field.options)) {
+      throw new Error(`${plugin.label}: ${field.label} must be one of ${Object.keys(field.options || {}).join(', ')}`);
+    }
+    config[field.key] = value;
+  });
+  return config;
+}
+
+export function createMapper(id: string, circuit: any, hardware: any, options: MapperOptions = {}): Mapper {
+  const config = resolveConfig(id, options.config);
+  return MAPPERS[id].create(circuit, hardware, { ...options, config });
+}
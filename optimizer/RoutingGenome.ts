@@ -0,0 +1,163 @@
+import { scheduleSteps } from '../compiler/DAGCircuit';
+import { fixDirections } from '../compiler/DirectionFixer';
+import { SeededRandom } from './SeededRandom';
+
+// Shortest paths considered per routed gate
+const MAX_ROUTE_PATHS = 8;
+
+// moveGene just below 1: the control takes every SWAP on the path
+const CONTROL_WALKS = 1 - 1e-9;
+
+// Genome shared by the search-based mappers: `layout` is a permutation of every
+// physical qubit (logical q sits on layout[q], the tail holds the free qubits)
+// and `routes` holds one [pathGene, moveGene] pair in [0, 1) per two-qubit
+// gate. When a gate's qubits are not adjacent, pathGene picks one of its
+// shortest paths and moveGene how many of the SWAPs along it move the control
+// (the rest move the target), so every genome decodes to a fully routed
+// circuit on connected hardware.
+export class RoutingGenome {
+  circuit: any;
+  hardware: any;
+  physicalQubits: number[];
+  twoQubitGates: number;
+  pathCache: Map<string, number[][]>;
+
+  constructor(circuit: any, hardware: any) {
+    this.circuit = circuit;
+    this.hardware = hardware;
+    this.physicalQubits = Object.keys(hardware.graph).map(q => parseInt(q, 10)).sort((a, b) => a - b);
+    this.twoQubitGates = circuit.gates.filter((g: any) => g.qubits.length === 2).length;
+    this.pathCache = new Map();
+  }
+
+  // The given layout with greedy routing: the control walks the routing path
+  greedy(layout: number[]) {
+    return { layout: this.completeLayout(layout), routes: this.routeGenes(() => [0, CONTROL_WALKS]) };
+  }
+
+  randomRoutes(rng: SeededRandom) {
+    return this.routeGenes(() => [rng.next(), rng.next()]);
+  }
+
+  routeGenes(gene: () => number[]) {
+    return Array.from({ length: this.twoQubitGates }, gene);
+  }
+
+  // Extends a logical -> physical layout to a permutation of all physical qubits
+  completeLayout(layout: number[]) {
+    const used = new Set(layout);
+    return [...layout, ...this.physicalQubits.filter(p => !used.has(p))];
+  }
+
+  key(genome: any) {
+    return `${genome.layout.join(',')}|${genome.routes.map((r: number[]) => r.join(':')).join(',')}`;
+  }
+
+  // Exchanges the physical qubits of a logical qubit and any other slot
+  transpose(layout: number[], rng: SeededRandom) {
+    if (layout.length < 2) return;
+    const i = rng.int(Math.min(this.circuit.nQubits, layout.length));
+    let j = rng.int(layout.length - 1);
+    if (j >= i) j++;
+    [layout[i], layout[j]] = [layout[j], layout[i]];
+  }
+
+  // Shortest paths from a to b (the routing path first, then hop-shortest
+  // alternatives), capped at MAX_ROUTE_PATHS
+  shortestPaths(a: number, b: number) {
+    const key = `${a}-${b}`;
+    const cached = this.pathCache.get(key);
+    if (cached) return cached;
+
+    const paths: number[][] = [];
+    const seen = new Set<string>();
+    const add = (path: number[]) => {
+      const id = path.join(',');
+      if (path.length >= 2 && !seen.has(id)) {
+        seen.add(id);
+        paths.push(path);
+      }
+    };
+
+    add(this.hardware.getRoutingPath(a, b));
+    const walk = (path: number[]) => {
+      if (paths.length >= MAX_ROUTE_PATHS) return;
+      const current = path[path.length - 1];
+      if (current === b) {
+        add([...path]);
+        return;
+      }
+      const remaining = this.hardware.distance(current, b);
+      this.hardware.graph[current].forEach((next: number) => {
+        if (this.hardware.distance(next, b) === remaining - 1) walk([...path, next]);
+      });
+    };
+    if (Number.isFinite(this.hardware.distance(a, b))) walk([a]);
+
+    this.pathCache.set(key, paths);
+    return paths;
+  }
+
+  decode(genome: any) {
+    const steps: any[] = [];
+    const nLogical = this.circuit.nQubits;
+    const layout = genome.layout.slice(0, nLogical);
+    let insertedSwaps = 0;
+    let distancePenalty = 0;
+    let routeIndex = 0;
+
+    const swap = (p1: number, p2: number) => {
+      const logQ1 = layout.indexOf(p1);
+      const logQ2 = layout.indexOf(p2);
+      if (logQ1 !== -1) layout[logQ1] = p2;
+      if (logQ2 !== -1) layout[logQ2] = p1;
+      steps.push({
+        type: 'swap',
+        physical: [p1, p2],
+        logical: [logQ1, logQ2],
+        layout: [...layout],
+        inserted: true
+      });
+      insertedSwaps++;
+    };
+
+    this.circuit.gates.forEach((gate: any) => {
+      if (gate.qubits.length === 2) {
+        const [c, t] = gate.qubits;
+        const [pathGene, moveGene] = genome.routes[routeIndex++];
+
+        if (!this.hardware.isConnected(layout[c], layout[t])) {
+          const paths = this.shortestPaths(layout[c], layout[t]);
+          if (paths.length > 0) {
+            const path = paths[Math.floor(pathGene * paths.length)];
+            // path.length - 2 SWAPs are needed; the control takes the first `split`
+            const split = Math.floor(moveGene * (path.length - 1));
+            for (let i = 0; i < split; i++) swap(path[i], path[i + 1]);
+            for (let i = path.length - 1; i > split + 1; i--) swap(path[i], path[i - 1]);
+          }
+        }
+
+        distancePenalty += this.hardware.distance(layout[c], layout[t]) - 1;
+      }
+
+      steps.push({
+        type: gate.type,
+        qubits: gate.qubits.map((q: number) => layout[q]),
+        logical: gate.qubits,
+        params: gate.params,
+        layout: [...layout],
+        inserted: false
+      });
+    });
+
+    const routed = fixDirections(steps, this.hardware);
+    return {
+      steps: routed,
+      insertedSwaps,
+      depth: scheduleSteps(routed),
+      distancePenalty,
+      initialLayout: genome.layout.slice(0, nLogical),
+      finalLayout: layout
+    };
+  }
+}
@@ -0,0 +1,217 @@
+import { DAGCircuit, scheduleSteps } from '../compiler/DAGCircuit';
+import { fixDirections, reversalCost } from '../compiler/DirectionFixer';
+
+// SABRE routing (Li, Ding & Xie, ASPLOS'19): routes the DAG front layer with a
+// look-ahead over an extended set, and refines the initial layout by routing
+// the circuit forwards and backwards before the final forward pass.
+export class SabreMapper {
+  circuit: any;
+  hardware: any;
+  name: string;
+  config: any;
+  dag: DAGCircuit;
+  reverseDag: DAGCircuit;
+
+  constructor(circuit: any, hardware: any, config: any = {}) {
+    this.circuit = circuit;
+    this.hardware = hardware;
+    this.name = 'SABRE';
+    this.config = {
+      extendedSetSize: config.extendedSetSize || 20,
+      extendedSetWeight: config.extendedSetWeight ?? 0.5,
+      decayDelta: config.decayDelta ?? 0.001,
+      decayResetInterval: config.decayResetInterval || 5,
+      layoutIterations: config.layoutIterations ?? 1
+    };
+    this.dag = new DAGCircuit(circuit);
+    this.reverseDag = new DAGCircuit({ nQubits: circuit.nQubits, gates: [...circuit.gates].reverse() });
+  }
+
+  map(initialLayout?: number[]) {
+    let layout = initialLayout ? [...initialLayout] : Array.from({ length: this.circuit.nQubits }, (_, i) => i);
+
+    // Forward/backward passes: the final layout of each pass seeds the next
+    for (let i = 0; i < this.config.layoutIterations; i++) {
+      layout = this.route(this.dag, layout).finalLayout;
+      layout = this.route(this.reverseDag, layout).finalLayout;
+    }
+
+    const result = this.route(this.dag, layout);
+    const steps = fixDirections(result.steps, this.hardware);
+    return {
+      steps,
+      insertedSwaps: result.insertedSwaps,
+      depth: scheduleSteps(steps),
+      distancePenalty: result.distancePenalty,
+      initialLayout: layout,
+      finalLayout: result.finalLayout
+    };
+  }
+
+  route(dag: DAGCircuit, startLayout: number[]) {
+    const steps: any[] = [];
+    const layout = [...startLayout];
+    const decay = new Map<number, number>();
+    const remainingPreds = dag.predecessors.map(p => p.length);
+    let front = dag.frontLayer();
+    let insertedSwaps = 0;
+    let distancePenalty = 0;
+    let swapsSinceProgress = 0;
+    let swapsSinceReset = 0;
+
+    const execute = (node: number) => {
+      const gate = dag.gates[node];
+      if (gate.qubits.length === 2) {
+        distancePenalty += this.hardware.distance(layout[gate.qubits[0]], layout[gate.qubits[1]]) - 1;
+      }
+      steps.push({
+        type: gate.type,
+        qubits: gate.qubits.map((q: number) => layout[q]),
+        logical: gate.qubits,
+        params: gate.params,
+        layout: [...layout],
+        inserted: false
+      });
+    };
+
+    const swap = (p1: number, p2: number) => {
+      const logQ1 = layout.indexOf(p1);
+      const logQ2 = layout.indexOf(p2);
+      if (logQ1 !== -1) layout[logQ1] = p2;
+      if (logQ2 !== -1) layout[logQ2] = p1;
+
+      steps.push({
+        type: 'swap',
+        physical: [p1, p2],
+        logical: [logQ1, logQ2],
+        layout: [...layout],
+        inserted: true
+      });
+      insertedSwaps++;
+    };
+
+    while (front.length > 0) {
+      const ready = front.filter(node => this.isExecutable(dag.gates[node], layout));
+
+      if (ready.length > 0) {
+        const nextFront = front.filter(node => !ready.includes(node));
+        ready.forEach(node => {
+          execute(node);
+          dag.successors[node].forEach(succ => {
+            remainingPreds[succ]--;
+            if (remainingPreds[succ] === 0) nextFront.push(succ);
+          });
+        });
+        front = nextFront;
+        decay.clear();
+        swapsSinceProgress = 0;
+        swapsSinceReset = 0;
+        continue;
+      }
+
+      // Release valve: if the heuristic stalls, walk the closest gate into place
+      if (swapsSinceProgress > 10 * this.circuit.nQubits) {
+        const [c, t] = this.closestGate(dag, front, layout).qubits;
+        const path = this.hardware.getRoutingPath(layout[c], layout[t]);
+        if (path.length < 2) throw new Error(`SABRE: physical qubits ${layout[c]} and ${layout[t]} are disconnected`);
+        for (let i = 0; i < path.length - 2; i++) swap(path[i], path[i + 1]);
+        swapsSinceProgress = 0;
+        continue;
+      }
+
+      const [p1, p2] = this.chooseSwap(dag, front, layout, decay, remainingPreds);
+      swap(p1, p2);
+      swapsSinceProgress++;
+      swapsSinceReset++;
+
+      decay.set(p1, (decay.get(p1) || 1) + this.config.decayDelta);
+      decay.set(p2, (decay.get(p2) || 1) + this.config.decayDelta);
+      if (swapsSinceReset >= this.config.decayResetInterval) {
+        decay.clear();
+        swapsSinceReset = 0;
+      }
+    }
+
+    return { steps, insertedSwaps, distancePenalty, finalLayout: layout };
+  }
+
+  isExecutable(gate: any, layout: number[]) {
+    if (gate.qubits.length !== 2) return true;
+    return this.hardware.isConnected(layout[gate.qubits[0]], layout[gate.qubits[1]]);
+  }
+
+  closestGate(dag: DAGCircuit, front: number[], layout: number[]) {
+    return front
+      .map(node => dag.gates[node])
+      .sort((a, b) => this.gateDistance(a, layout) - this.gateDistance(b, layout))[0];
+  }
+
+  gateDistance(gate: any, layout: number[]) {
+    const [p1, p2] = [layout[gate.qubits[0]], layout[gate.qubits[1]]];
+    return this.hardware.routingDistance(p1, p2) + reversalCost(this.hardware, gate.type, p1, p2);
+  }
+
+  // Upcoming two-qubit gates reachable from the front layer, in BFS order
+  extendedSet(dag: DAGCircuit, front: number[], remainingPreds: number[]) {
+    const extended: number[] = [];
+    const pending = [...remainingPreds];
+    const queue = [...front];
+
+    while (queue.length > 0 && extended.length < this.config.extendedSetSize) {
+      const node = queue.shift() as number;
+      dag.successors[node].forEach(succ => {
+        pending[succ]--;
+        if (pending[succ] !== 0) return;
+        queue.push(succ);
+        if (dag.gates[succ].qubits.length === 2 && extended.length < this.config.extendedSetSize) {
+          extended.push(succ);
+        }
+      });
+    }
+
+    return extended;
+  }
+
+  chooseSwap(dag: DAGCircuit, front: number[], layout: number[], decay: Map<number, number>, remainingPreds: number[]) {
+    const frontGates = front.map(node => dag.gates[node]).filter(gate => gate.qubits.length === 2);
+    const extendedGates = this.extendedSet(dag, front, remainingPreds).map(node => dag.gates[node]);
+
+    // Candidate swaps touch at least one physical qubit used by the front layer
+    const candidates: number[][] = [];
+    const seen = new Set<string>();
+    frontGates.forEach(gate => {
+      gate.qubits.forEach((q: number) => {
+        const p = layout[q];
+        (this.hardware.graph[p] || []).forEach((n: number) => {
+          const key = `${Math.min(p, n)}-${Math.max(p, n)}`;
+          if (seen.has(key)) return;
+          seen.add(key);
+          candidates.push([Math.min(p, n), Math.max(p, n)]);
+        });
+      });
+    });
+
+    if (candidates.length === 0) throw new Error('SABRE: no candidate swaps for the front layer');
+
+    let best = candidates[0];
+    let bestScore = Infinity;
+
+    candidates.forEach(([p1, p2]) => {
+      const trial = layout.map(p => (p === p1 ? p2 : p === p2 ? p1 : p));
+
+      const frontCost = frontGates.reduce((sum, gate) => sum + this.gateDistance(gate, trial), 0) / frontGates.length;
+      const extendedCost = extendedGates.length > 0
+        ? extendedGates.reduce((sum, gate) => sum + this.gateDistance(gate, trial), 0) / extendedGates.length
+        : 0;
+      const score = Math.max(decay.get(p1) || 1, decay.get(p2) || 1) *
+        (frontCost + this.config.extendedSetWeight * extendedCost);
+
+      if (score < bestScore) {
+        bestScore = score;
+        best = [p1, p2];
+      }
+    });
+
+    return best;
+  }
+}
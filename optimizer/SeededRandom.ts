@@ -0,0 +1,43 @@
+// Small seedable PRNG (mulberry32) so stochastic mappers are reproducible:
+// the same seed always yields the same sequence.
+export class SeededRandom {
+  seed: number;
+  state: number;
+
+  constructor(seed: number = randomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Uniform float in [0, 1)
+  next() {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Uniform integer in [0, n)
+  int(n: number) {
+    return Math.floor(this.next() * n);
+  }
+
+  pick<T>(items: T[]) {
+    return items[this.int(items.length)];
+  }
+
+  // Fisher-Yates shuffle in place
+  shuffle<T>(items: T[]) {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = this.int(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+}
+
+// Fresh 32-bit seed for runs where the caller did not pick one
+export function randomSeed() {
+  return Math.floor(Math.random() * 4294967296);
+}
@@ -0,0 +1,113 @@
+import { CostModel } from '../metrics/CostModel';
+import { RoutingGenome } from './RoutingGenome';
+import { SeededRandom, randomSeed } from './SeededRandom';
+
+export const TEMPERATURE_SCHEDULES: Record<string, string> = {
+  geometric: 'Geometric',
+  linear: 'Linear'
+};
+
+// Points kept in the convergence trace
+const TRACE_POINTS = 200;
+
+// Anneals a RoutingGenome: each move exchanges two slots of the initial layout
+// or, with `annealRoutes`, re-draws the routing choice of one gate. The energy
+// is the CostModel cost of the decoded, fully routed circuit; a worse move is
+// accepted with probability exp(-delta / T).
+export class SimulatedAnnealingMapper {
+  circuit: any;
+  hardware: any;
+  name: string;
+  config: any;
+  codec: RoutingGenome;
+  costModel: CostModel;
+  rng: SeededRandom;
+
+  constructor(circuit: any, hardware: any, config: any = {}) {
+    this.circuit = circuit;
+    this.hardware = hardware;
+    this.name = 'Simulated Annealing';
+    this.config = {
+      iterations: config.iterations || 1000,
+      initialTemperature: config.initialTemperature || 10,
+      finalTemperature: config.finalTemperature || 0.05,
+      schedule: config.schedule || 'geometric',
+      annealRoutes: config.annealRoutes ?? true,
+      objective: config.objective || 'weighted',
+      // Unseeded runs draw a seed so the result can still be reproduced
+      seed: config.seed ?? randomSeed(),
+      // Called at every trace point with (iteration, iterations, best energy)
+      onProgress: config.onProgress || null
+    };
+    if (!TEMPERATURE_SCHEDULES[this.config.schedule]) {
+      throw new Error(`Unknown temperature schedule '${this.config.schedule}'`);
+    }
+    this.codec = new RoutingGenome(circuit, hardware);
+    this.costModel = new CostModel({ objective: this.config.objective });
+    this.rng = new SeededRandom(this.config.seed);
+  }
+
+  temperature(iteration: number) {
+    const { iterations, initialTemperature: t0, finalTemperature: t1, schedule } = this.config;
+    const progress = iterations > 1 ? iteration / (iterations - 1) : 1;
+    if (schedule === 'linear') return t0 + (t1 - t0) * progress;
+    return t0 * Math.pow(t1 / t0, progress);
+  }
+
+  energy(genome: any) {
+    return this.costModel.evaluate(this.codec.decode(genome), this.hardware);
+  }
+
+  neighbour(genome: any) {
+    const canRoute = this.config.annealRoutes && genome.routes.length > 0;
+    if (canRoute && this.rng.next() < 0.5) {
+      const routes = [...genome.routes];
+      routes[this.rng.int(routes.length)] = [this.rng.next(), this.rng.next()];
+      return { layout: genome.layout, routes };
+    }
+    const layout = [...genome.layout];
+    this.codec.transpose(layout, this.rng);
+    return { layout, routes: genome.routes };
+  }
+
+  map(initialLayout?: number[]) {
+    this.rng = new SeededRandom(this.config.seed);
+    let current = this.codec.greedy(initialLayout || Array.from({ length: this.circuit.nQubits }, (_, i) => i));
+    let currentEnergy = this.energy(current);
+    let best = current;
+    let bestEnergy = currentEnergy;
+
+    const { iterations } = this.config;
+    const traceEvery = Math.max(1, Math.ceil(iterations / TRACE_POINTS));
+    const trace: any[] = [{ iteration: 0, temperature: this.temperature(0), energy: currentEnergy, best: bestEnergy }];
+    let accepted = 0;
+
+    for (let i = 0; i < iterations; i++) {
+      const temperature = this.temperature(i);
+      const candidate = this.neighbour(current);
+      const candidateEnergy = this.energy(candidate);
+      const delta = candidateEnergy - currentEnergy;
+
+      if (delta <= 0 || this.rng.next() < Math.exp(-delta / temperature)) {
+        current = candidate;
+        currentEnergy = candidateEnergy;
+        accepted++;
+        if (currentEnergy < bestEnergy) {
+          best = current;
+          bestEnergy = currentEnergy;
+        }
+      }
+
+      if ((i + 1) % traceEvery === 0 || i === iterations - 1) {
+        trace.push({ iteration: i + 1, temperature, energy: currentEnergy, best: bestEnergy });
+        if (this.config.onProgress) this.config.onProgress(i + 1, iterations, bestEnergy);
+      }
+    }
+
+    return {
+      ...this.codec.decode(best),
+      seed: this.rng.seed,
+      convergence: { trace, accepted, iterations }
+    };
+  }
+}
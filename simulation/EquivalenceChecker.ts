@@ -0,0 +1,108 @@
+import { Statevector, SIMULATED_GATES, MAX_SIMULATED_QUBITS } from './Statevector';
+import { stepQubits } from '../compiler/DAGCircuit';
+import { SeededRandom } from '../optimizer/SeededRandom';
+
+// Checks that a routed result computes the same unitary as its source circuit.
+// Each trial prepares a random product state, runs the circuit on the logical
+// qubits and the routed steps on the physical qubits (logical l starting on
+// initialLayout[l]), then compares the routed state with the original one
+// permuted onto finalLayout. Unused physical qubits must return to |0>, and
+// states only have to agree up to a global phase.
+//
+// Measurements are ignored when nothing acts on the qubit afterwards; circuits
+// with resets, classical conditions or mid-circuit measurements are skipped.
+export class EquivalenceChecker {
+  circuit: any;
+  result: any;
+  config: any;
+
+  constructor(circuit: any, result: any, config: any = {}) {
+    this.circuit = circuit;
+    this.result = result;
+    this.config = {
+      trials: config.trials || 2,
+      tolerance: config.tolerance ?? 1e-6,
+      seed: config.seed ?? 0
+    };
+  }
+
+  check() {
+    const unsupported = this.unsupportedReason();
+    if (unsupported) return { status: 'skipped', fidelity: null, reason: unsupported };
+
+    // Simulate only the physical qubits the routed circuit touches
+    const physical = new Set<number>([...this.result.initialLayout, ...this.result.finalLayout]);
+    this.result.steps.forEach((step: any) => stepQubits(step).forEach(q => physical.add(q)));
+    if (physical.size > MAX_SIMULATED_QUBITS) {
+      return { status: 'skipped', fidelity: null, reason: `routed circuit touches ${physical.size} qubits` };
+    }
+    const compact = new Map([...physical].sort((a, b) => a - b).map((p, idx) => [p, idx]));
+    const at = (p: number) => compact.get(p) as number;
+
+    const rng = new SeededRandom(this.config.seed);
+    let fidelity = 1;
+    for (let trial = 0; trial < this.config.trials; trial++) {
+      const rotations = Array.from({ length: this.circuit.nQubits }, () => [
+        Math.acos(1 - 2 * rng.next()), 2 * Math.PI * rng.next(), 2 * Math.PI * rng.next()
+      ]);
+
+      const original = new Statevector(this.circuit.nQubits);
+      rotations.forEach((angles, l) => original.apply('u3', [l], angles));
+      this.circuit.gates.forEach((gate: any) => {
+        if (gate.type !== 'measure') original.apply(gate.type, gate.qubits, gate.params?.angles);
+      });
+
+      const routed = new Statevector(physical.size);
+      rotations.forEach((angles, l) => routed.apply('u3', [at(this.result.initialLayout[l])], angles));
+      this.result.steps.forEach((step: any) => {
+        if (step.type === 'measure') return;
+        routed.apply(step.type, stepQubits(step).map(at), step.params?.angles);
+      });
+
+      const expected = this.permute(original, physical.size, this.result.finalLayout.map(at));
+      const [r, i] = expected.inner(routed);
+      fidelity = Math.min(fidelity, r * r + i * i);
+    }
+
+    return {
+      status: fidelity >= 1 - this.config.tolerance ? 'pass' : 'fail',
+      fidelity,
+      reason: null
+    };
+  }
+
+  // Places logical amplitudes onto the physical register: bit l -> bit target[l]
+  permute(state: Statevector, nQubits: number, target: number[]) {
+    const out = new Statevector(nQubits);
+    out.re[0] = 0;
+    for (let k = 0; k < state.re.length; k++) {
+      let idx = 0;
+      target.forEach((bit, l) => { if ((k >> l) & 1) idx |= 1 << bit; });
+      out.re[idx] = state.re[k];
+      out.im[idx] = state.im[k];
+    }
+    return out;
+  }
+
+  unsupportedReason() {
+    if (!this.result.steps || !this.result.initialLayout || !this.result.finalLayout) return 'result has no steps or layouts';
+    if (this.circuit.nQubits > MAX_SIMULATED_QUBITS) return `${this.circuit.nQubits} qubits exceeds the simulator limit`;
+
+    const measured = new Set<number>();
+    for (const gate of this.circuit.gates) {
+      if (gate.params?.condition) return 'classically conditioned gates';
+      if (gate.type === 'reset') return 'reset';
+      if (gate.qubits.some((q: number) => measured.has(q))) return 'mid-circuit measurement';
+      if (gate.type === 'measure') measured.add(gate.qubits[0]);
+      else if (!SIMULATED_GATES.has(gate.type)) return `unsupported gate '${gate.type}'`;
+    }
+    for (const step of this.result.steps) {
+      if (step.type !== 'measure' && !SIMULATED_GATES.has(step.type)) return `unsupported gate '${step.type}'`;
+    }
+    return null;
+  }
+}
+
+export function checkEquivalence(circuit: any, result: any, config: any = {}) {
+  return new EquivalenceChecker(circuit, result, config).check();
+}
@@ -0,0 +1,157 @@
+// Dense CPU statevector over n qubits. Amplitudes live in separate real and
+// imaginary Float64Arrays; qubit q is bit q of the basis-state index.
+
+export const MAX_SIMULATED_QUBITS = 20;
+
+type Complex = [number, number];
+type Matrix2 = [Complex, Complex, Complex, Complex];
+
+const SQRT1_2 = Math.SQRT1_2;
+
+const cexp = (phase: number): Complex => [Math.cos(phase), Math.sin(phase)];
+
+// OpenQASM U(θ, φ, λ)
+function u3(theta: number, phi: number, lambda: number): Matrix2 {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  const [lr, li] = cexp(lambda);
+  const [pr, pi] = cexp(phi);
+  const [plr, pli] = cexp(phi + lambda);
+  return [[c, 0], [-lr * s, -li * s], [pr * s, pi * s], [plr * c, pli * c]];
+}
+
+const phase = (lambda: number): Matrix2 => [[1, 0], [0, 0], [0, 0], cexp(lambda)];
+
+const rx = (theta: number): Matrix2 => {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  return [[c, 0], [0, -s], [0, -s], [c, 0]];
+};
+
+const ry = (theta: number): Matrix2 => {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  return [[c, 0], [-s, 0], [s, 0], [c, 0]];
+};
+
+const rz = (theta: number): Matrix2 => [cexp(-theta / 2), [0, 0], [0, 0], cexp(theta / 2)];
+
+const SINGLE_QUBIT: Record<string, (a: number[]) => Matrix2> = {
+  id: () => [[1, 0], [0, 0], [0, 0], [1, 0]],
+  x: () => [[0, 0], [1, 0], [1, 0], [0, 0]],
+  y: () => [[0, 0], [0, -1], [0, 1], [0, 0]],
+  z: () => [[1, 0], [0, 0], [0, 0], [-1, 0]],
+  h: () => [[SQRT1_2, 0], [SQRT1_2, 0], [SQRT1_2, 0], [-SQRT1_2, 0]],
+  s: () => phase(Math.PI / 2),
+  sdg: () => phase(-Math.PI / 2),
+  t: () => phase(Math.PI / 4),
+  tdg: () => phase(-Math.PI / 4),
+  sx: () => [[0.5, 0.5], [0.5, -0.5], [0.5, -0.5], [0.5, 0.5]],
+  sxdg: () => [[0.5, -0.5], [0.5, 0.5], [0.5, 0.5], [0.5, -0.5]],
+  rx: ([theta]) => rx(theta),
+  ry: ([theta]) => ry(theta),
+  rz: ([theta]) => rz(theta),
+  u1: ([lambda]) => phase(lambda),
+  p: ([lambda]) => phase(lambda),
+  u2: ([phi, lambda]) => u3(Math.PI / 2, phi, lambda),
+  u3: ([theta, phi, lambda]) => u3(theta, phi, lambda),
+  u: ([theta, phi, lambda]) => u3(theta, phi, lambda)
+};
+
+// Controlled gates: the one-qubit matrix applied to the target
+const CONTROLLED: Record<string, string> = {
+  cx: 'x', cy: 'y', cz: 'z', ch: 'h', crx: 'rx', cry: 'ry', crz: 'rz', cu1: 'u1', cp: 'p', cu3: 'u3'
+};
+
+export const SIMULATED_GATES = new Set([
+  ...Object.keys(SINGLE_QUBIT), ...Object.keys(CONTROLLED), 'swap', 'rxx', 'rzz'
+]);
+
+export class Statevector {
+  nQubits: number;
+  re: Float64Array;
+  im: Float64Array;
+
+  constructor(nQubits: number) {
+    if (nQubits > MAX_SIMULATED_QUBITS) {
+      throw new Error(`Statevector: ${nQubits} qubits exceeds the ${MAX_SIMULATED_QUBITS}-qubit limit`);
+    }
+    this.nQubits = nQubits;
+    this.re = new Float64Array(2 ** nQubits);
+    this.im = new Float64Array(2 ** nQubits);
+    this.re[0] = 1;
+  }
+
+  // Applies `matrix` to qubit q on the subspace where every control bit is set
+  applyMatrix(q: number, matrix: Matrix2, controlMask = 0) {
+    const { re, im } = this;
+    const bit = 1 << q;
+    const [[ar, ai], [br, bi], [cr, ci], [dr, di]] = matrix;
+
+    for (let i = 0; i < re.length; i++) {
+      if (i & bit || (i & controlMask) !== controlMask) continue;
+      const j = i | bit;
+      const xr = re[i], xi = im[i], yr = re[j], yi = im[j];
+      re[i] = ar * xr - ai * xi + br * yr - bi * yi;
+      im[i] = ar * xi + ai * xr + br * yi + bi * yr;
+      re[j] = cr * xr - ci * xi + dr * yr - di * yi;
+      im[j] = cr * xi + ci * xr + dr * yi + di * yr;
+    }
+  }
+
+  swap(q1: number, q2: number) {
+    const { re, im } = this;
+    const b1 = 1 << q1;
+    const b2 = 1 << q2;
+    for (let i = 0; i < re.length; i++) {
+      if (!(i & b1) || i & b2) continue;
+      const j = (i & ~b1) | b2;
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  // Multiplies each amplitude by e^{i·phase(parity)} — used for rzz
+  applyParityPhase(q1: number, q2: number, even: number, odd: number) {
+    const { re, im } = this;
+    const [er, ei] = cexp(even);
+    const [or, oi] = cexp(odd);
+    for (let i = 0; i < re.length; i++) {
+      const parity = ((i >> q1) ^ (i >> q2)) & 1;
+      const [pr, pi] = parity ? [or, oi] : [er, ei];
+      const xr = re[i];
+      re[i] = xr * pr - im[i] * pi;
+      im[i] = xr * pi + im[i] * pr;
+    }
+  }
+
+  apply(type: string, qubits: number[], angles: number[] = []) {
+    if (SINGLE_QUBIT[type]) {
+      this.applyMatrix(qubits[0], SINGLE_QUBIT[type](angles));
+    } else if (CONTROLLED[type]) {
+      this.applyMatrix(qubits[1], SINGLE_QUBIT[CONTROLLED[type]](angles), 1 << qubits[0]);
+    } else if (type === 'swap') {
+      this.swap(qubits[0], qubits[1]);
+    } else if (type === 'rzz') {
+      this.applyParityPhase(qubits[0], qubits[1], -angles[0] / 2, angles[0] / 2);
+    } else if (type === 'rxx') {
+      // rxx(θ) = (H⊗H) rzz(θ) (H⊗H)
+      qubits.forEach(q => this.apply('h', [q]));
+      this.applyParityPhase(qubits[0], qubits[1], -angles[0] / 2, angles[0] / 2);
+      qubits.forEach(q => this.apply('h', [q]));
+    } else {
+      throw new Error(`Statevector: unsupported gate '${type}'`);
+    }
+  }
+
+  // <this|other>
+  inner(other: Statevector) {
+    let r = 0;
+    let i = 0;
+    for (let k = 0; k < this.re.length; k++) {
+      r += this.re[k] * other.re[k] + this.im[k] * other.im[k];
+      i += this.re[k] * other.im[k] - this.im[k] * other.re[k];
+    }
+    return [r, i] as Complex;
+  }
+}
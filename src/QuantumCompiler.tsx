@@ -6,51 +6,38 @@ import * as THREE from 'three';
 import { 
   Play, Pause, RotateCcw, Zap, GitBranch, Activity, 
   TrendingDown, Grid3x3, BarChart3, Info, Cpu, Layers, 
-  ArrowRight, CheckCircle2, AlertCircle 
+  ArrowRight, CheckCircle2, AlertCircle, Upload, Download, Target, Dices,
+  Settings, Copy, Trash2, Save, Plus
 } from 'lucide-react';
 
 // --- REAL IMPORTS (Restored from your original code) ---
-import { QuantumCircuit } from '../compiler/QuantumCircuit';
+import { BENCHMARKS } from '../compiler/Benchmarks';
 import { InteractionGraph } from '../compiler/InteractionGraph';
-import { HardwareTopology } from '../hardware/Topology';
-import { CostModel } from '../metrics/CostModel';
-import { GreedyMapper } from '../optimizer/GreedyMapper';
-import { LookAheadMapper } from '../optimizer/LookAheadMapper';
-import { GeneticSwapOptimizer } from '../optimizer/GeneticSwapOptimizer';
+import { parseQasm } from '../compiler/QasmParser';
+import { exportResult, EXPORT_FORMATS } from '../compiler/CircuitExporter';
+import { HardwareTopology, TOPOLOGY_TYPES } from '../hardware/Topology';
+import { Calibration } from '../hardware/Calibration';
+import { CostModel, OBJECTIVES } from '../metrics/CostModel';
+import { BenchmarkSweep, SWEEP_METRICS } from '../metrics/BenchmarkSweep';
+import { TUNING_STRATEGIES } from '../metrics/HyperparameterTuner';
+import { normalizeRun, runLabel } from '../metrics/MapperComparison';
+import { MAPPERS, resolveConfig } from '../optimizer/MapperFactory';
+import { PresetStore, DEFAULT_PRESET } from '../optimizer/MapperPresets';
+import { PLACEMENT_STRATEGIES } from '../optimizer/InitialPlacement';
+import { randomSeed } from '../optimizer/SeededRandom';
+import ScalingChart from '../visualization/ScalingChart';
+import { WorkerPool, JobCancelledError, createBrowserPool } from './worker/WorkerPool';
+import { mapperJob, gapsJob } from './worker/jobs';
 import QubitVisualizer from '../visualization/QubitVisualizer'; // Keeping this if you need 2D fallback, though 3D is used below
 
-// --- BENCHMARKS (Restored original logic) ---
-const BENCHMARKS = {
-  qft: (n: number) => {
-    const circ = new QuantumCircuit(n);
-    for (let i = n - 1; i >= 0; i--) {
-      circ.addGate('h', [i]);
-      for (let j = i - 1; j >= 0; j--) {
-        circ.addGate('cx', [j, i]);
-      }
-    }
-    return circ;
-  },
-  grover: (n: number) => {
-    const circ = new QuantumCircuit(n);
-    for (let i = 0; i < n; i++) circ.addGate('h', [i]);
-    for (let iter = 0; iter < Math.ceil(Math.sqrt(n)); iter++) {
-      circ.addGate('cx', [0, n - 1]);
-      for (let i = 0; i < n - 1; i++) {
-        circ.addGate('h', [i]);
-        if (i < n - 2) circ.addGate('cx', [i, i + 1]);
-      }
-    }
-    return circ;
-  },
-  entangle: (n: number) => {
-    const circ = new QuantumCircuit(n);
-    circ.addGate('h', [0]);
-    for (let i = 0; i < n - 1; i++) {
-      circ.addGate('cx', [i, i + 1]);
-    }
-    return circ;
-  }
+// Triggers a browser download of generated text
+const downloadText = (text: string, filename: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
 };
 
 // --- 3D SCENE COMPONENTS ---
@@ -130,7 +117,7 @@ function QuantumField() {
 }
 
 // 2. Hardware Qubit Nodes
-const QubitNode = React.memo(({ position, id, isActive, isSwap }: any) => {
+const QubitNode = React.memo(({ position, id, label, isActive, isSwap }: any) => {
     const meshRef = useRef<THREE.Mesh>(null!);
     const glowRef = useRef<THREE.Mesh>(null!);
     const lastPulseRef = useRef(0);
@@ -166,14 +153,14 @@ const QubitNode = React.memo(({ position, id, isActive, isSwap }: any) => {
                 <meshBasicMaterial color={glowColor} transparent opacity={isActive ? 0.5 : 0.08} side={THREE.BackSide} />
             </Sphere>
             <Html distanceFactor={12}>
-                <div className="text-[10px] font-mono text-cyan-100/70 pointer-events-none select-none bg-black/40 px-1 rounded">P{id}</div>
+                <div className="text-[10px] font-mono text-cyan-100/70 pointer-events-none select-none bg-black/40 px-1 rounded">{label || `P${id}`}</div>
             </Html>
         </group>
     );
 });
 
 // 3. Hardware Connections (Edges)
-const HardwareConnection = React.memo(({ start, end, active }: any) => {
+const HardwareConnection = React.memo(({ start, end, active, color }: any) => {
         const lineRef = useRef<any>(null);
         useFrame(({ clock }) => {
                 if (!lineRef.current) return;
@@ -186,10 +173,10 @@ const HardwareConnection = React.memo(({ start, end, active }: any) => {
             <Line
                 ref={lineRef}
                 points={[start, end]}
-                color={active ? '#fb7185' : '#0ea5e9'}
-                lineWidth={active ? 3 : 1.5}
+                color={active ? '#fb7185' : (color || '#0ea5e9')}
+                lineWidth={active ? 3 : (color ? 2.5 : 1.5)}
                 transparent
-                opacity={active ? 1 : 0.45}
+                opacity={active ? 1 : (color ? 0.85 : 0.45)}
                 dashed={active}
                 dashScale={active ? 5 : 1}
                 dashSize={active ? 1 : 0.6}
@@ -244,6 +231,20 @@ const ThreeDHardwareViz = ({ hardware, currentResult, step }: any) => {
                 return pos;
             }
 
+            if (type !== 'grid2d' && hardware.layoutPositions) {
+                // remaining topologies: use the device's own 2D coordinates, centred
+                const coords = hardware.layoutPositions();
+                const xs = coords.map((c: any) => c.x);
+                const ys = coords.map((c: any) => c.y);
+                const cx = (Math.min(...xs) + Math.max(...xs)) / 2;
+                const cy = (Math.min(...ys) + Math.max(...ys)) / 2;
+                coords.forEach((c: any, i: number) => {
+                    const z = Math.sin((i / Math.max(1, coords.length)) * Math.PI * 2) * 0.3;
+                    pos.push(new THREE.Vector3((c.x - cx) * spacing, -(c.y - cy) * spacing, z));
+                });
+                return pos;
+            }
+
             // default: grid2d
             for (let i = 0; i < qubits; i++) {
                 const row = Math.floor(i / cols);
@@ -254,14 +255,12 @@ const ThreeDHardwareViz = ({ hardware, currentResult, step }: any) => {
             return pos;
     }, [hardware]);
 
-    // Auto-center camera
+    // Auto-center camera on the extent of the laid-out qubits
     useEffect(() => {
-        if (!hardware) return;
-        const params = hardware.params || {};
-        const rows = params.rows || Math.ceil(Math.sqrt(params.qubits || 0));
-        const cols = params.cols || Math.ceil((params.qubits || 0) / Math.max(1, rows));
-        camera.position.set(0, 0, Math.max(rows, cols) * 1.5 + 4);
-    }, [hardware, camera]);
+        if (!hardware || qubitPositions.length === 0) return;
+        const extent = Math.max(...qubitPositions.map(p => Math.max(Math.abs(p.x), Math.abs(p.y))));
+        camera.position.set(0, 0, (extent + 1) * 1.5 + 4);
+    }, [hardware, qubitPositions, camera]);
 
     // Derive edges from adjacency list (with fallback if .adj doesn't exist)
     const connections = useMemo(() => {
@@ -289,6 +288,20 @@ const ThreeDHardwareViz = ({ hardware, currentResult, step }: any) => {
         return edges;
     }, [hardware, qubitPositions]);
 
+    // Colour couplers from green (lowest error) to red (highest) when calibrated
+    const edgeColors = useMemo(() => {
+        const calibration = hardware?.calibration;
+        if (!calibration) return null;
+        const { min, max } = calibration.errorRange();
+        const low = new THREE.Color('#34d399');
+        const high = new THREE.Color('#f43f5e');
+        return connections.map(edge => {
+            const error = calibration.couplerError(edge.start, edge.end);
+            const t = max > min ? (error - min) / (max - min) : 0;
+            return `#${low.clone().lerp(high, t).getHexString()}`;
+        });
+    }, [hardware, connections]);
+
     // Determine active elements (robust to different mapper step shapes)
     const stepData = currentResult?.steps?.[step] || {};
     // Mappers use different field names:
@@ -321,6 +334,7 @@ const ThreeDHardwareViz = ({ hardware, currentResult, step }: any) => {
                         key={idx} 
                         position={pos} 
                         id={idx} 
+                        label={hardware?.params?.names?.[idx]}
                         isActive={activeQubits.includes(idx)} 
                         isSwap={isSwapStep && activeQubits.includes(idx)}
                     />
@@ -333,6 +347,7 @@ const ThreeDHardwareViz = ({ hardware, currentResult, step }: any) => {
                             start={qubitPositions[edge.start]} 
                             end={qubitPositions[edge.end]} 
                             active={isActive}
+                            color={edgeColors?.[idx]}
                         />
                     )
                 })}
@@ -369,6 +384,553 @@ const StatCard = ({ label, value, color, icon: Icon }: any) => (
 );
 
 
+const CUSTOM_PRESET = 'Custom';
+
+// Comparison runs for the settings panel: labelled by preset when a mapper runs
+// more than once or away from its defaults, numbered when labels would clash
+const runSpecs = (runs: any[]) => runs.map(run => {
+  const twins = runs.filter(r => r.mapper === run.mapper);
+  const samePreset = twins.filter(r => r.preset === run.preset);
+  let label = twins.length === 1 && run.preset === DEFAULT_PRESET ? null : run.preset;
+  if (samePreset.length > 1) label = `${run.preset} #${samePreset.indexOf(run) + 1}`;
+  return { id: run.id, mapper: run.mapper, config: run.config, label };
+});
+
+// One card per comparison run with fields generated from the mapper's
+// configSchema; a mapper added twice runs side by side with both settings
+const MapperSettingsPanel = ({ runs, setRuns, store, disabled }: any) => {
+  const [addMapper, setAddMapper] = useState(Object.keys(MAPPERS)[0]);
+  const [presetNames, setPresetNames] = useState<Record<string, string>>({});
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const [, setStoreVersion] = useState(0);
+  const nextId = useRef(0);
+
+  const newRun = (mapper: string, config = resolveConfig(mapper), preset = DEFAULT_PRESET) => ({
+    id: `${mapper}-${++nextId.current}`,
+    mapper,
+    config,
+    preset
+  });
+  const update = (id: string, patch: any) => setRuns(runs.map((r: any) => (r.id === id ? { ...r, ...patch } : r)));
+  const setField = (run: any, key: string, value: any) => update(run.id, { config: { ...run.config, [key]: value }, preset: CUSTOM_PRESET });
+
+  const applyPreset = (run: any, name: string) => {
+    const preset = store.get(run.mapper, name);
+    if (preset) update(run.id, { config: preset.config, preset: name });
+  };
+  const savePreset = (run: any) => {
+    try {
+      const name = store.save(run.mapper, presetNames[run.id] || '', run.config);
+      update(run.id, { preset: name });
+      setPresetNames({ ...presetNames, [run.id]: '' });
+      setPresetError(null);
+      setStoreVersion(v => v + 1);
+    } catch (err) {
+      setPresetError(String((err as any)?.message || err));
+    }
+  };
+  const deletePreset = (run: any) => {
+    store.remove(run.mapper, run.preset);
+    update(run.id, { preset: CUSTOM_PRESET });
+    setStoreVersion(v => v + 1);
+  };
+  const duplicate = (run: any) => {
+    const index = runs.indexOf(run);
+    setRuns([...runs.slice(0, index + 1), newRun(run.mapper, run.config, run.preset), ...runs.slice(index + 1)]);
+  };
+
+  const inputClass = 'w-full bg-slate-950/80 border border-slate-800 text-cyan-100 rounded-md px-2 py-1.5 text-xs font-mono outline-none focus:ring-1 focus:ring-cyan-500';
+  const iconButton = 'p-1.5 rounded-md border border-slate-800 text-cyan-400 hover:border-cyan-700 hover:text-cyan-200 disabled:opacity-40 transition-colors';
+
+  return (
+    <HoloCard>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h3 className="text-sm font-black text-cyan-300 uppercase tracking-[0.2em] flex items-center gap-3">
+          <Settings className="w-5 h-5" /> Mapper Settings
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={addMapper}
+            onChange={(e) => setAddMapper(e.target.value)}
+            className="bg-slate-900/90 border border-cyan-900/50 text-cyan-300 rounded-md px-3 py-1.5 text-xs font-bold uppercase tracking-wider outline-none"
+          >
+            {Object.values(MAPPERS).map(plugin => <option key={plugin.id} value={plugin.id}>{plugin.label}</option>)}
+          </select>
+          <button
+            onClick={() => setRuns([...runs, newRun(addMapper)])}
+            disabled={disabled}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-cyan-600/80 hover:bg-cyan-500 disabled:opacity-40 text-white text-xs font-bold uppercase tracking-wider transition-colors"
+          >
+            <Plus className="w-3 h-3" /> Add run
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {runs.map((run: any) => {
+          const plugin = MAPPERS[run.mapper];
+          const presets = store.list(run.mapper);
+          const current = presets.find((p: any) => p.name === run.preset);
+          let error = null;
+          try {
+            resolveConfig(run.mapper, run.config);
+          } catch (err) {
+            error = String((err as any)?.message || err);
+          }
+
+          return (
+            <div key={run.id} className="rounded-lg border border-cyan-900/40 bg-slate-950/40 p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-bold text-cyan-200 uppercase tracking-wider" title={plugin.description}>{plugin.label}</span>
+                <div className="flex gap-1">
+                  <button onClick={() => duplicate(run)} disabled={disabled} title="Add another run of this mapper" className={iconButton}>
+                    <Copy className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => setRuns(runs.filter((r: any) => r !== run))} disabled={disabled} title="Remove from the comparison" className={iconButton}>
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+
+              <select value={run.preset} onChange={(e) => applyPreset(run, e.target.value)} disabled={disabled} className={inputClass}>
+                {presets.map((preset: any) => (
+                  <option key={preset.name} value={preset.name}>{preset.name}{preset.builtin ? '' : ' (saved)'}</option>
+                ))}
+                {!current && <option value={run.preset}>{run.preset}</option>}
+              </select>
+
+              {plugin.configSchema.length === 0 && <p className="text-[10px] text-slate-500 font-mono">No settings</p>}
+              <div className="grid grid-cols-2 gap-2">
+                {plugin.configSchema.map((field: any) => (
+                  <label key={field.key} className="text-[10px] text-cyan-300/70 font-bold uppercase tracking-wider space-y-1">
+                    <span className="block truncate" title={field.label}>{field.label}</span>
+                    {field.type === 'boolean' ? (
+                      <input type="checkbox" checked={!!run.config[field.key]} onChange={(e) => setField(run, field.key, e.target.checked)} disabled={disabled} className="accent-cyan-500" />
+                    ) : field.type === 'select' ? (
+                      <select value={run.config[field.key]} onChange={(e) => setField(run, field.key, e.target.value)} disabled={disabled} className={inputClass}>
+                        {Object.entries(field.options).map(([value, label]: any) => <option key={value} value={value}>{label}</option>)}
+                      </select>
+                    ) : (
+                      <input
+                        type="number"
+                        min={field.min}
+                        max={field.max}
+                        step={field.step || (field.integer ? 1 : 'any')}
+                        value={Number.isFinite(run.config[field.key]) ? run.config[field.key] : ''}
+                        onChange={(e) => setField(run, field.key, e.target.value === '' ? NaN : Number(e.target.value))}
+                        disabled={disabled}
+                        className={inputClass}
+                      />
+                    )}
+                  </label>
+                ))}
+              </div>
+
+              {plugin.configSchema.length > 0 && (
+                <div className="flex gap-2">
+                  <input
+                    value={presetNames[run.id] || ''}
+                    onChange={(e) => setPresetNames({ ...presetNames, [run.id]: e.target.value })}
+                    placeholder="Preset name"
+                    className={inputClass}
+                  />
+                  <button onClick={() => savePreset(run)} disabled={!!error || !(presetNames[run.id] || '').trim()} title="Save these settings as a preset" className={iconButton}>
+                    <Save className="w-3 h-3" />
+                  </button>
+                  {current && !current.builtin && (
+                    <button onClick={() => deletePreset(run)} title={`Delete the saved preset '${run.preset}'`} className={iconButton}>
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              )}
+              {error && <p className="text-[10px] text-rose-400 font-mono">{error}</p>}
+            </div>
+          );
+        })}
+      </div>
+      {presetError && <p className="mt-4 text-xs text-rose-400 font-mono">{presetError}</p>}
+    </HoloCard>
+  );
+};
+
+// Tunes the genetic optimizer on training circuits in a worker; the winning
+// config can be saved as a preset or added to the comparison
+const TuningPanel = ({ store, onUse, onSaved, objective }: any) => {
+  const [benchmarks, setBenchmarks] = useState<string[]>(['qft', 'grover']);
+  const [topologies, setTopologies] = useState<string[]>(['grid2d', 'lnn']);
+  const [sizes, setSizes] = useState('6, 8');
+  const [strategy, setStrategy] = useState('halving');
+  const [candidates, setCandidates] = useState(16);
+  const [budget, setBudget] = useState(30);
+  const [progress, setProgress] = useState<{ fraction: number; best: number | null } | null>(null);
+  const [report, setReport] = useState<any | null>(null);
+  const [tuneError, setTuneError] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState('Tuned');
+  const [saved, setSaved] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const poolRef = useRef<WorkerPool | null>(null);
+  useEffect(() => () => poolRef.current?.terminate(), []);
+
+  const toggle = (list: string[], set: (v: string[]) => void, key: string) => {
+    set(list.includes(key) ? list.filter(k => k !== key) : [...list, key]);
+  };
+
+  const runTuning = async () => {
+    const parsedSizes = sizes.split(',').map(v => parseInt(v.trim(), 10)).filter(n => Number.isInteger(n) && n >= 2);
+    if (parsedSizes.length === 0) {
+      setTuneError('Enter at least one qubit count of 2 or more');
+      return;
+    }
+    if (!poolRef.current) poolRef.current = createBrowserPool(1);
+    setRunning(true);
+    setTuneError(null);
+    setReport(null);
+    setSaved(null);
+    setProgress({ fraction: 0, best: null });
+    try {
+      const config = { mapper: 'genetic', benchmarks, topologies, sizes: parsedSizes, strategy, candidates, budgetMs: budget * 1000, objective };
+      setReport(await poolRef.current.run({ type: 'tune', config }, msg => setProgress({ fraction: msg.fraction, best: msg.best })));
+    } catch (err) {
+      if (!(err instanceof JobCancelledError)) setTuneError(String((err as any)?.message || err));
+    } finally {
+      setRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const savePreset = () => {
+    try {
+      setSaved(store.save('genetic', presetName, report.best.config));
+      setTuneError(null);
+      onSaved();
+    } catch (err) {
+      setTuneError(String((err as any)?.message || err));
+    }
+  };
+
+  const checkbox = (list: string[], set: (v: string[]) => void, key: string, label: string) => (
+    <label key={key} className="flex items-center gap-2 text-slate-300 normal-case cursor-pointer">
+      <input type="checkbox" checked={list.includes(key)} onChange={() => toggle(list, set, key)} className="accent-cyan-500" disabled={running} />
+      {label}
+    </label>
+  );
+  const inputClass = 'w-full bg-slate-950/80 border border-slate-800 text-cyan-100 rounded-lg px-3 py-2 text-xs font-mono outline-none focus:ring-1 focus:ring-cyan-500';
+  const stat = (s: any, digits = 3) => `${s.mean.toFixed(digits)} ± ${s.std.toFixed(digits)}`;
+  const best = report?.best;
+
+  return (
+    <HoloCard>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h3 className="text-sm font-black text-cyan-300 uppercase tracking-[0.2em] flex items-center gap-3">
+          <Target className="w-5 h-5" /> Genetic Auto-Tune
+        </h3>
+        <button
+          onClick={() => (running ? poolRef.current?.stop() : runTuning())}
+          disabled={!running && (benchmarks.length === 0 || topologies.length === 0)}
+          className="inline-flex items-center gap-2 px-4 py-1.5 rounded-md bg-cyan-600/80 hover:bg-cyan-500 disabled:opacity-40 text-white text-xs font-bold uppercase tracking-wider transition-colors"
+        >
+          {running ? <><Pause className="w-3 h-3" /> Stop</> : <><Play className="w-3 h-3" /> Tune</>}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 text-[11px] font-bold uppercase tracking-wider mb-6">
+        <div className="space-y-2">
+          <p className="text-[10px] text-cyan-300/70">Training circuits</p>
+          {Object.keys(BENCHMARKS).map(key => checkbox(benchmarks, setBenchmarks, key, key))}
+        </div>
+        <div className="space-y-2">
+          <p className="text-[10px] text-cyan-300/70">Topologies</p>
+          {Object.entries(TOPOLOGY_TYPES).filter(([key]) => key !== 'custom').map(([key, label]) => checkbox(topologies, setTopologies, key, label))}
+        </div>
+        <div className="space-y-2">
+          <p className="text-[10px] text-cyan-300/70">Qubit counts</p>
+          <input value={sizes} onChange={(e) => setSizes(e.target.value)} disabled={running} className={inputClass} />
+          <p className="text-[10px] text-cyan-300/70 pt-2">Strategy</p>
+          <select value={strategy} onChange={(e) => setStrategy(e.target.value)} disabled={running} className={inputClass}>
+            {Object.entries(TUNING_STRATEGIES).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <p className="text-[10px] text-cyan-300/70">Candidates</p>
+          <input
+            type="number"
+            min={2}
+            max={128}
+            value={candidates}
+            onChange={(e) => setCandidates(Math.max(2, Math.min(128, parseInt(e.target.value, 10) || 2)))}
+            disabled={running}
+            className={inputClass}
+          />
+          <p className="text-[10px] text-cyan-300/70 pt-2">Time budget (s)</p>
+          <input
+            type="number"
+            min={1}
+            max={3600}
+            value={budget}
+            onChange={(e) => setBudget(Math.max(1, Math.min(3600, parseInt(e.target.value, 10) || 1)))}
+            disabled={running}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {progress && (
+        <div className="space-y-1 mb-4">
+          <div className="h-1.5 rounded-full bg-slate-900 overflow-hidden">
+            <div className="h-full bg-cyan-500 transition-all" style={{ width: `${progress.fraction * 100}%` }} />
+          </div>
+          <p className="text-[10px] text-slate-400 font-mono">
+            {Math.round(progress.fraction * 100)}% of planned runs{progress.best !== null ? ` · best score ${progress.best.toFixed(3)}` : ''}
+          </p>
+        </div>
+      )}
+      {tuneError && <p className="text-xs text-rose-400 font-mono mb-4">{tuneError}</p>}
+
+      {best && (
+        <div className="space-y-4">
+          <p className="text-[10px] text-slate-400 font-mono">
+            Score = cost / greedy cost on {report.instances.length} instance(s), lower is better.
+            {report.completed ? '' : report.stopped ? ' Stopped before the search finished.' : ' Time budget reached before the search finished.'} {(report.elapsedMs / 1000).toFixed(1)} s.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <table className="w-full text-xs font-mono">
+              <thead className="text-[10px] text-cyan-300/70 uppercase tracking-widest">
+                <tr><th className="py-2 text-left">Setting</th><th className="py-2 text-right">Best</th><th className="py-2 text-right">Default</th></tr>
+              </thead>
+              <tbody className="divide-y divide-cyan-900/30">
+                {Object.keys(best.config).map(key => (
+                  <tr key={key}>
+                    <td className="py-1.5 text-slate-400">{key}</td>
+                    <td className="py-1.5 text-right text-cyan-200">{String(best.config[key])}</td>
+                    <td className="py-1.5 text-right text-slate-500">{String(report.defaults.config[key])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="space-y-3 text-xs font-mono">
+              <p className="text-cyan-200">Best score {stat(best.score)} over {best.runs} runs (min {best.score.min.toFixed(3)}, max {best.score.max.toFixed(3)})</p>
+              <p className="text-slate-400">Defaults {report.defaults.runs > 0 ? `${stat(report.defaults.score)} over ${report.defaults.runs} runs` : 'not evaluated'}</p>
+              <p className="text-slate-400">Best cost {stat(best.cost, 1)} · {best.timeMs.mean.toFixed(0)} ms per run</p>
+              <div className="flex gap-2">
+                <input value={presetName} onChange={(e) => setPresetName(e.target.value)} placeholder="Preset name" className={inputClass} />
+                <button
+                  onClick={savePreset}
+                  disabled={!presetName.trim()}
+                  className="inline-flex items-center gap-1.5 px-3 rounded-lg border border-slate-800 text-cyan-400 hover:border-cyan-700 hover:text-cyan-200 disabled:opacity-40 text-[10px] font-bold uppercase tracking-wider transition-colors"
+                >
+                  <Save className="w-3 h-3" /> Save
+                </button>
+                <button
+                  onClick={() => onUse(best.config, saved || 'Tuned')}
+                  className="inline-flex items-center gap-1.5 px-3 rounded-lg border border-slate-800 text-cyan-400 hover:border-cyan-700 hover:text-cyan-200 text-[10px] font-bold uppercase tracking-wider transition-colors whitespace-nowrap"
+                >
+                  <Plus className="w-3 h-3" /> Compare
+                </button>
+              </div>
+              {saved && <p className="text-[10px] text-emerald-400">Saved as genetic preset '{saved}'</p>}
+              <p className="text-[10px] text-cyan-300/70 uppercase tracking-widest pt-2">Top candidates</p>
+              {report.candidates.slice(0, 5).map((c: any) => (
+                <p key={c.id} className="text-[10px] text-slate-400">
+                  #{c.id}{c.id === 0 ? ' (defaults)' : ''}: {stat(c.score)} · {c.runs} runs · pop {c.config.populationSize} × gen {c.config.generations}
+                </p>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </HoloCard>
+  );
+};
+
+// Sweeps benchmarks × sizes × topologies × mappers × seeds and charts how each mapper scales
+const SweepPanel = ({ placement, objective }: any) => {
+  const [benchmarks, setBenchmarks] = useState<string[]>(['qft']);
+  const [topologies, setTopologies] = useState<string[]>(['grid2d']);
+  const [mappers, setMappers] = useState<string[]>(['greedy', 'lookahead', 'sabre']);
+  const [sizes, setSizes] = useState('4, 6, 8, 10, 12');
+  const [seedCount, setSeedCount] = useState(1);
+  const [metric, setMetric] = useState('swaps');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [sweep, setSweep] = useState<BenchmarkSweep | null>(null);
+  const [records, setRecords] = useState<any[]>([]);
+  const [sweepError, setSweepError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  // Sweep runs are spread over their own worker pool
+  const poolRef = useRef<WorkerPool | null>(null);
+  useEffect(() => () => poolRef.current?.terminate(), []);
+
+  const toggle = (list: string[], set: (v: string[]) => void, key: string) => {
+    set(list.includes(key) ? list.filter(k => k !== key) : [...list, key]);
+  };
+
+  const runSweep = async () => {
+    try {
+      const parsedSizes = sizes.split(',').map(s => parseInt(s.trim(), 10)).filter(n => Number.isInteger(n) && n >= 2);
+      if (parsedSizes.length === 0) throw new Error('Enter at least one qubit count of 2 or more');
+      const next = new BenchmarkSweep({
+        benchmarks,
+        topologies,
+        mappers,
+        sizes: parsedSizes,
+        seeds: Array.from({ length: seedCount }, (_, i) => i),
+        placement,
+        objective
+      });
+      setSweep(next);
+      setSweepError(null);
+      setRecords([]);
+      setProgress({ done: 0, total: next.configurations().length });
+      setRunning(true);
+      if (!poolRef.current) poolRef.current = createBrowserPool();
+      await next.run((done, total) => {
+        setProgress({ done, total });
+        setRecords([...next.records]);
+      }, poolRef.current);
+    } catch (err) {
+      setSweepError(String((err as any)?.message || err));
+      setProgress(null);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const aggregated = sweep ? sweep.aggregate(records) : [];
+  const failures = records.filter(r => r.error);
+  const checkbox = (list: string[], set: (v: string[]) => void, key: string, label: string) => (
+    <label key={key} className="flex items-center gap-2 cursor-pointer text-slate-300">
+      <input type="checkbox" checked={list.includes(key)} onChange={() => toggle(list, set, key)} className="accent-cyan-500" disabled={running} />
+      {label}
+    </label>
+  );
+
+  return (
+    <HoloCard>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h3 className="text-sm font-black text-cyan-300 uppercase tracking-[0.2em] flex items-center gap-3">
+          <TrendingDown className="w-5 h-5" /> Benchmark Sweep
+        </h3>
+        <div className="flex items-center gap-3">
+          {records.length > 0 && !running && (
+            <button
+              onClick={() => downloadText(sweep?.toCsv(records) || '', 'sweep.csv', 'text/csv')}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-cyan-900/50 text-cyan-400 text-[10px] font-bold uppercase tracking-wider hover:bg-cyan-950/50 hover:border-cyan-500/50 transition-colors"
+            >
+              <Download className="w-3 h-3" /> CSV
+            </button>
+          )}
+          <button
+            onClick={() => (running ? sweep?.cancel() : runSweep())}
+            disabled={!running && (benchmarks.length === 0 || topologies.length === 0 || mappers.length === 0)}
+            className="inline-flex items-center gap-2 px-4 py-1.5 rounded-md bg-cyan-600/80 hover:bg-cyan-500 disabled:opacity-40 text-white text-xs font-bold uppercase tracking-wider transition-colors"
+          >
+            {running ? <><Pause className="w-3 h-3" /> Stop</> : <><Play className="w-3 h-3" /> Run Sweep</>}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-6 text-[11px] font-bold uppercase tracking-wider mb-6">
+        <div className="space-y-2">
+          <p className="text-[10px] text-cyan-300/70">Benchmarks</p>
+          {Object.keys(BENCHMARKS).map(key => checkbox(benchmarks, setBenchmarks, key, key))}
+        </div>
+        <div className="space-y-2">
+          <p className="text-[10px] text-cyan-300/70">Topologies</p>
+          {Object.entries(TOPOLOGY_TYPES).filter(([key]) => key !== 'custom').map(([key, label]) => checkbox(topologies, setTopologies, key, label))}
+        </div>
+        <div className="space-y-2">
+          <p className="text-[10px] text-cyan-300/70">Mappers</p>
+          {Object.entries(MAPPERS).map(([key, { label }]) => checkbox(mappers, setMappers, key, label))}
+        </div>
+        <div className="space-y-2">
+          <p className="text-[10px] text-cyan-300/70">Qubit counts</p>
+          <input
+            value={sizes}
+            onChange={(e) => setSizes(e.target.value)}
+            disabled={running}
+            className="w-full bg-slate-950/80 border border-slate-800 text-cyan-100 rounded-lg px-3 py-2 text-xs font-mono outline-none focus:ring-1 focus:ring-cyan-500"
+          />
+          <p className="text-[10px] text-cyan-300/70 pt-2">Seeds</p>
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={seedCount}
+            onChange={(e) => setSeedCount(Math.max(1, Math.min(20, parseInt(e.target.value, 10) || 1)))}
+            disabled={running}
+            className="w-full bg-slate-950/80 border border-slate-800 text-cyan-100 rounded-lg px-3 py-2 text-xs font-mono outline-none focus:ring-1 focus:ring-cyan-500"
+          />
+        </div>
+        <div className="space-y-2">
+          <p className="text-[10px] text-cyan-300/70">Chart metric</p>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value)}
+            className="w-full bg-slate-950/80 border border-slate-800 text-cyan-100 rounded-lg px-3 py-2 text-xs outline-none focus:ring-1 focus:ring-cyan-500"
+          >
+            {Object.entries(SWEEP_METRICS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+          </select>
+          {progress && (
+            <div className="pt-2 space-y-1">
+              <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-cyan-500 transition-all" style={{ width: `${(100 * progress.done) / Math.max(1, progress.total)}%` }} />
+              </div>
+              <p className="text-[10px] text-slate-400 font-mono normal-case">{progress.done} / {progress.total} runs{sweep?.cancelled ? ' (stopped)' : ''}</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {sweepError && (
+        <div className="text-xs text-rose-400 bg-rose-950/30 p-2 rounded border border-rose-500/30 font-mono break-words mb-4">{sweepError}</div>
+      )}
+
+      {aggregated.length > 0 && sweep && (
+        <div className="space-y-6">
+          <ScalingChart series={sweep.series(metric, aggregated)} xLabel="Qubits" yLabel={SWEEP_METRICS[metric]} />
+          <div className="overflow-x-auto rounded-lg border border-cyan-900/30 max-h-80 overflow-y-auto">
+            <table className="w-full text-xs text-left border-collapse">
+              <thead className="bg-cyan-950/50 text-cyan-300/70 text-[10px] uppercase tracking-widest font-bold sticky top-0">
+                <tr>
+                  <th className="py-3 pl-4">Benchmark</th>
+                  <th className="py-3">Topology</th>
+                  <th className="py-3 text-right">Qubits</th>
+                  <th className="py-3 pl-4">Mapper</th>
+                  {Object.values(SWEEP_METRICS).map(label => <th key={label} className="py-3 text-right">{label}</th>)}
+                  <th className="py-3 pr-4 text-right">Invalid</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-cyan-900/30 bg-slate-950/30 font-mono">
+                {aggregated.map(row => (
+                  <tr key={`${row.benchmark}-${row.topology}-${row.nQubits}-${row.mapper}`}>
+                    <td className="py-2 pl-4 text-slate-300">{row.benchmark}</td>
+                    <td className="py-2 text-slate-300">{row.topology}</td>
+                    <td className="py-2 text-right text-slate-300">{row.nQubits}</td>
+                    <td className="py-2 pl-4 text-cyan-200">{MAPPERS[row.mapper].label}</td>
+                    {Object.keys(SWEEP_METRICS).map(key => (
+                      <td key={key} className="py-2 text-right text-slate-300" title={`min ${row[key].min.toFixed(1)} · max ${row[key].max.toFixed(1)}`}>
+                        {row[key].mean.toFixed(1)}{row.runs > 1 && <span className="text-slate-500"> ±{row[key].std.toFixed(1)}</span>}
+                      </td>
+                    ))}
+                    <td className={`py-2 pr-4 text-right ${row.invalid > 0 ? 'text-rose-400' : 'text-slate-500'}`}>{row.invalid}/{row.runs}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {failures.length > 0 && (
+        <div className="text-xs text-rose-400 bg-rose-950/30 p-2 rounded border border-rose-500/30 font-mono break-words mt-4">
+          {failures.length} run(s) failed — first: {failures[0].mapper} on {failures[0].benchmark}({failures[0].nQubits}) / {failures[0].topology}: {failures[0].error}
+        </div>
+      )}
+    </HoloCard>
+  );
+};
+
+
 // --- MAIN EXPORT ---
 
 export default function QuantumCompiler3DUI() {
@@ -376,72 +938,201 @@ export default function QuantumCompiler3DUI() {
   const [hardware, setHardware] = useState<any | null>(null);
   const [results, setResults] = useState<any[] | null>(null);
   const [playing, setPlaying] = useState(false);
+  // Run id of the result shown in the visualizer
   const [activeMapper, setActiveMapper] = useState('genetic');
+  const presetStore = useMemo(() => new PresetStore(typeof localStorage !== 'undefined' ? localStorage : null), []);
+  // Bumped when a preset is saved outside the settings panel so it re-reads the store
+  const [, setPresetVersion] = useState(0);
+  const [mapperRuns, setMapperRuns] = useState<any[]>(() => Object.values(MAPPERS).map(plugin => ({
+    id: plugin.id,
+    mapper: plugin.id,
+    config: resolveConfig(plugin.id),
+    preset: DEFAULT_PRESET
+  })));
   const [step, setStep] = useState(0);
   const [topologyType, setTopologyType] = useState('grid2d'); 
   const [nQubits, setNQubits] = useState(9); // Default 3x3 for good viz
   const [benchmark, setBenchmark] = useState('qft');
+  const [placement, setPlacement] = useState('identity');
+  const [calibration, setCalibration] = useState<{ name: string; data: Calibration } | null>(null);
+  const [calibrationError, setCalibrationError] = useState<string | null>(null);
+  const [errorAware, setErrorAware] = useState(false);
+  const [directed, setDirected] = useState(false);
+  const [objective, setObjective] = useState('weighted');
+  const [restore, setRestore] = useState(false);
+  const [seed, setSeed] = useState(() => randomSeed());
+  const [gaSeeds, setGaSeeds] = useState(1);
+  const [customDevice, setCustomDevice] = useState<{ name: string; data: any } | null>(null);
+  const [deviceError, setDeviceError] = useState<string | null>(null);
   const [showInfo, setShowInfo] = useState(false);
   const [running, setRunning] = useState(false);
   const [workerError, setWorkerError] = useState<string | null>(null);
+  const [customCircuit, setCustomCircuit] = useState<{ name: string; circuit: any } | null>(null);
+  const [qasmError, setQasmError] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState('qasm2');
+  const [expandSwaps, setExpandSwaps] = useState(false);
   
   // Instantiating your CostModel
-  const costModel = useMemo(() => new CostModel({ alpha: 10, beta: 1, gamma: 5 }), []);
+  const costModel = useMemo(() => new CostModel({ alpha: 10, beta: 1, gamma: 5, objective }), [objective]);
 
   // Initialize Hardware and Circuit
   useEffect(() => {
-    const rows = Math.ceil(Math.sqrt(nQubits));
-    const cols = Math.ceil(nQubits / rows);
-    
-    // Using your real HardwareTopology class
-    const hw = new HardwareTopology(topologyType, {
-      qubits: nQubits,
-      rows: rows,
-      cols: cols
-    });
+    // Using your real HardwareTopology class (or an uploaded device description)
+    const hw = topologyType === 'custom' && customDevice
+      ? HardwareTopology.fromCouplingMap(customDevice.data)
+      : HardwareTopology.forQubits(topologyType, nQubits, { directed });
+    if (calibration) {
+      try {
+        hw.setCalibration(calibration.data);
+        setCalibrationError(null);
+      } catch (err) {
+        setCalibrationError(String((err as any)?.message || err));
+      }
+    }
+    hw.setErrorAware(errorAware);
     setHardware(hw);
 
-    const circ = BENCHMARKS[benchmark](nQubits);
+    const circ = benchmark === 'qasm' && customCircuit ? customCircuit.circuit : BENCHMARKS[benchmark](nQubits);
     setCircuit(circ);
-  }, [topologyType, nQubits, benchmark]);
+  }, [topologyType, nQubits, benchmark, customCircuit, calibration, errorAware, customDevice, directed]);
+
+  // Load a coupling-map device description and switch to it
+  const loadDeviceFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const device = HardwareTopology.fromCouplingMap(await file.text());
+      const size = Object.keys(device.graph).length;
+      setCustomDevice({ name: device.params.name || file.name, data: device.toCouplingMap() });
+      setDeviceError(null);
+      setTopologyType('custom');
+      setNQubits(Math.min(16, Math.max(4, size)));
+      setResults(null);
+    } catch (err) {
+      setDeviceError(String((err as any)?.message || err));
+    }
+  };
+
+  const saveDevice = () => {
+    if (!hardware) return;
+    const spec = hardware.toCouplingMap();
+    downloadText(JSON.stringify(spec, null, 2) + '\n', `${spec.name}.json`, 'application/json');
+  };
+
+  // Load per-qubit / per-coupler calibration data for the current device
+  const loadCalibrationFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setCalibration({ name: file.name, data: Calibration.fromJSON(await file.text()) });
+      setCalibrationError(null);
+      setResults(null);
+    } catch (err) {
+      setCalibrationError(String((err as any)?.message || err));
+    }
+  };
+
+  // Load an OpenQASM 2.0 file as the active circuit
+  const loadQasmFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const circ = parseQasm(await file.text());
+      if (circ.nQubits > 16) throw new Error(`circuit uses ${circ.nQubits} qubits, at most 16 are supported`);
+      setCustomCircuit({ name: file.name, circuit: circ });
+      setQasmError(null);
+      setBenchmark('qasm');
+      setNQubits(Math.max(4, circ.nQubits));
+      setResults(null);
+    } catch (err) {
+      setQasmError(String((err as any)?.message || err));
+    }
+  };
+
+  // Each mapper run is a separate job on the worker pool; results fill the
+  // table as they finish, in run order, and optimality gaps follow once all
+  // have finished. Cancelling terminates the pool's workers
+  const poolRef = useRef<WorkerPool | null>(null);
+  const jobRef = useRef(0);
+  const [progress, setProgress] = useState<Record<string, { fraction: number; best: number | null }>>({});
+
+  const getPool = () => {
+    if (!poolRef.current) poolRef.current = createBrowserPool();
+    return poolRef.current;
+  };
+  useEffect(() => () => poolRef.current?.terminate(), []);
 
-  // The Real Optimization Logic
-  const runOptimization = () => {
+  const runOptimization = async () => {
     if (!circuit || !hardware) return;
+    // Mappers with a maxQubits below the circuit size sit this one out
+    const specs = runSpecs(mapperRuns).filter(spec => !MAPPERS[spec.mapper].maxQubits || circuit.nQubits <= (MAPPERS[spec.mapper].maxQubits as number));
+    try {
+      if (specs.length === 0) throw new Error('Add a mapper run in Mapper Settings');
+      specs.forEach(spec => normalizeRun(spec));
+    } catch (err) {
+      setWorkerError(String((err as any)?.message || err));
+      return;
+    }
+    const pool = getPool();
+    pool.cancel();
+    const id = ++jobRef.current;
+    const slots: any[] = specs.map(() => null);
+    const config = { placement, objective, seed, seeds: gaSeeds, restoreLayout: restore };
     setRunning(true);
     setWorkerError(null);
+    setResults(null);
+    setStep(0);
+    setPlaying(false);
+    setProgress(Object.fromEntries(specs.map(spec => [runLabel(spec), { fraction: 0, best: null }])));
 
-    // Using setTimeout to allow React to render the "Running" state before the main thread blocks
-    setTimeout(() => {
-        try {
-            const mappers = [
-                new GreedyMapper(circuit, hardware),
-                new LookAheadMapper(circuit, hardware, 3),
-                new GeneticSwapOptimizer(circuit, hardware)
-            ];
-
-            const comparisonResults = mappers.map(mapper => {
-                const result = mapper.map();
-                const cost = costModel.evaluate(result);
-                return { ...result, mapper: mapper.name, cost };
-            });
-
-            setResults(comparisonResults);
-            setStep(0);
-            setPlaying(false);
-        } catch (err) {
-            console.error('Mapping failed on main thread', err);
-            setWorkerError(String((err as any)?.message || err));
-        } finally {
-            setRunning(false);
-        }
-    }, 100);
+    try {
+      await Promise.all(specs.map((spec, i) => pool.run(mapperJob(spec, circuit, hardware, config), msg => {
+        if (id !== jobRef.current) return;
+        setProgress(prev => ({ ...prev, [runLabel(spec)]: { fraction: msg.fraction, best: msg.best } }));
+      }).then(result => {
+        if (id !== jobRef.current) return;
+        slots[i] = result;
+        setResults(slots.filter(Boolean));
+        setProgress(prev => {
+          const { [runLabel(spec)]: _, ...rest } = prev;
+          return rest;
+        });
+      })));
+      // Optimality gaps need every row, Exact's proven optimum included; their
+      // A* searches run as one more pool job
+      if (id !== jobRef.current) return;
+      const gaps = await pool.run(gapsJob(slots, circuit, hardware));
+      if (id === jobRef.current) setResults(slots.map((row, i) => ({ ...row, optimalityGap: gaps[i] })));
+    } catch (err) {
+      if (id !== jobRef.current || err instanceof JobCancelledError) return;
+      pool.cancel();
+      setWorkerError(String((err as any)?.message || err));
+    }
+    if (id === jobRef.current) setRunning(false);
+  };
+
+  const cancelOptimization = () => {
+    jobRef.current++;
+    poolRef.current?.cancel();
+    setRunning(false);
+    setProgress({});
+  };
+
+  // Download a routed result in the selected export format
+  const downloadResult = (result: any) => {
+    try {
+      const format = EXPORT_FORMATS[exportFormat];
+      const text = exportResult(result, exportFormat, {
+        expandSwaps,
+        nQubits: Object.keys(hardware?.graph || {}).length || undefined
+      });
+      downloadText(text, `${result.mapper.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.${format.extension}`, format.mime);
+    } catch (err) {
+      setWorkerError(String((err as any)?.message || err));
+    }
   };
 
   // Animation Loop
   useEffect(() => {
     if (playing && results) {
-      const currentResult = results.find(r => r.mapper === getMapperName(activeMapper));
+      const currentResult = results.find(r => r.runId === activeMapper);
       if (currentResult && step < currentResult.steps.length - 1) {
         const timer = setTimeout(() => setStep(step + 1), 400);
         return () => clearTimeout(timer);
@@ -451,15 +1142,8 @@ export default function QuantumCompiler3DUI() {
     }
   }, [playing, step, results, activeMapper]);
 
-  // Helper to match mapper names in dropdown to mapper names in results
-  const getMapperName = (key: string) => {
-    if (key === 'greedy') return 'Greedy Baseline'; // Adjust these strings to match what your Mappers return as .name
-    if (key === 'lookahead') return 'Look-Ahead (k=3)';
-    if (key === 'genetic') return 'Genetic Algorithm';
-    return key; 
-  };
-
-  const currentResult = results?.find(r => r.mapper === getMapperName(activeMapper));
+  const currentResult = results?.find(r => r.runId === activeMapper);
+  const annealingResult = results?.find(r => r.convergence);
 
     const vizContainerRef = useRef<HTMLDivElement | null>(null);
     const [vizFullscreen, setVizFullscreen] = useState(false);
@@ -557,11 +1241,66 @@ export default function QuantumCompiler3DUI() {
                                     onChange={(e) => setTopologyType(e.target.value)}
                                     className="w-full bg-slate-950/80 border border-slate-800 text-cyan-100 rounded-lg pl-10 pr-4 py-2.5 text-sm focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all appearance-none shadow-inner font-medium hover:border-cyan-700"
                                 >
-                                    <option value="lnn">Linear Nearest-Neighbor</option>
-                                    <option value="grid2d">2D Grid Lattice</option>
-                                    <option value="star">Star Topology</option>
+                                    {Object.entries(TOPOLOGY_TYPES).filter(([key]) => key !== 'custom').map(([key, label]) => (
+                                        <option key={key} value={key}>{label}</option>
+                                    ))}
+                                    {customDevice && <option value="custom">{customDevice.name}</option>}
                                 </select>
                             </div>
+                            <div className="flex gap-2">
+                                <label className="flex-grow flex items-center justify-center gap-2 bg-slate-950/60 border border-dashed border-slate-800 text-cyan-300/70 rounded-lg py-2 text-[10px] font-bold uppercase tracking-wider cursor-pointer hover:border-cyan-700 hover:text-cyan-300 transition-colors">
+                                    <Upload className="w-3 h-3" /> Load Device
+                                    <input
+                                        type="file"
+                                        accept=".json,application/json"
+                                        className="hidden"
+                                        onChange={(e) => { loadDeviceFile(e.target.files?.[0]); e.target.value = ''; }}
+                                    />
+                                </label>
+                                <button
+                                    onClick={saveDevice}
+                                    className="flex items-center justify-center px-3 bg-slate-950/60 border border-slate-800 text-cyan-300/70 rounded-lg hover:border-cyan-700 hover:text-cyan-300 transition-colors"
+                                    title="Save device as coupling map"
+                                >
+                                    <Download className="w-3 h-3" />
+                                </button>
+                            </div>
+                            {deviceError && (
+                              <div className="text-xs text-rose-400 bg-rose-950/30 p-2 rounded border border-rose-500/30 font-mono break-words">
+                                {deviceError}
+                              </div>
+                            )}
+                            {topologyType !== 'custom' && (
+                              <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-cyan-300/70 cursor-pointer">
+                                  <input type="checkbox" checked={directed} onChange={(e) => setDirected(e.target.checked)} className="accent-cyan-500" />
+                                  Directed couplers (CX low → high)
+                              </label>
+                            )}
+                            <label className="flex items-center justify-center gap-2 w-full bg-slate-950/60 border border-dashed border-slate-800 text-cyan-300/70 rounded-lg py-2 text-[10px] font-bold uppercase tracking-wider cursor-pointer hover:border-cyan-700 hover:text-cyan-300 transition-colors">
+                                <Upload className="w-3 h-3" /> {calibration ? calibration.name : 'Load Calibration'}
+                                <input
+                                    type="file"
+                                    accept=".json,application/json"
+                                    className="hidden"
+                                    onChange={(e) => { loadCalibrationFile(e.target.files?.[0]); e.target.value = ''; }}
+                                />
+                            </label>
+                            {calibration && (
+                              <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-wider text-cyan-300/70">
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                    <input type="checkbox" checked={errorAware} onChange={(e) => setErrorAware(e.target.checked)} className="accent-cyan-500" />
+                                    Error-aware routing
+                                </label>
+                                <button onClick={() => { setCalibration(null); setErrorAware(false); setCalibrationError(null); }} className="text-slate-500 hover:text-rose-400 transition-colors">
+                                    Clear
+                                </button>
+                              </div>
+                            )}
+                            {calibrationError && (
+                              <div className="text-xs text-rose-400 bg-rose-950/30 p-2 rounded border border-rose-500/30 font-mono break-words">
+                                {calibrationError}
+                              </div>
+                            )}
                         </div>
 
                         {/* Qubits */}
@@ -572,7 +1311,7 @@ export default function QuantumCompiler3DUI() {
                             </div>
                             <input 
                                 type="range" 
-                                min="4" 
+                                min={Math.max(4, benchmark === 'qasm' && customCircuit ? customCircuit.circuit.nQubits : 4)} 
                                 max="16" 
                                 value={nQubits}
                                 onChange={(e) => setNQubits(parseInt(e.target.value))}
@@ -593,23 +1332,125 @@ export default function QuantumCompiler3DUI() {
                                     <option value="qft">Quantum Fourier Transform</option>
                                     <option value="grover">Grover Search</option>
                                     <option value="entangle">Entanglement</option>
+                                    {customCircuit && <option value="qasm">{customCircuit.name}</option>}
                                 </select>
                             </div>
+                            <label className="flex items-center justify-center gap-2 w-full bg-slate-950/60 border border-dashed border-slate-800 text-cyan-300/70 rounded-lg py-2 text-[10px] font-bold uppercase tracking-wider cursor-pointer hover:border-cyan-700 hover:text-cyan-300 transition-colors">
+                                <Upload className="w-3 h-3" /> Load OpenQASM
+                                <input
+                                    type="file"
+                                    accept=".qasm,text/plain"
+                                    className="hidden"
+                                    onChange={(e) => { loadQasmFile(e.target.files?.[0]); e.target.value = ''; }}
+                                />
+                            </label>
+                            {qasmError && (
+                              <div className="text-xs text-rose-400 bg-rose-950/30 p-2 rounded border border-rose-500/30 font-mono break-words">
+                                {qasmError}
+                              </div>
+                            )}
+                        </div>
+
+                        {/* Placement */}
+                        <div className="space-y-2 group">
+                            <label className="text-[10px] text-cyan-300/70 font-bold uppercase tracking-wider group-hover:text-cyan-300 transition-colors">Initial Placement</label>
+                            <div className="relative">
+                                <Cpu className="absolute left-3 top-3 w-4 h-4 text-cyan-600 z-10" />
+                                <select 
+                                    value={placement}
+                                    onChange={(e) => setPlacement(e.target.value)}
+                                    className="w-full bg-slate-950/80 border border-slate-800 text-cyan-100 rounded-lg pl-10 pr-4 py-2.5 text-sm focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all appearance-none shadow-inner font-medium hover:border-cyan-700"
+                                >
+                                    {Object.entries(PLACEMENT_STRATEGIES).map(([key, label]) => (
+                                        <option key={key} value={key}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-cyan-300/70 cursor-pointer">
+                                <input type="checkbox" checked={restore} onChange={(e) => setRestore(e.target.checked)} className="accent-cyan-500" />
+                                Restore initial layout at end
+                            </label>
+                        </div>
+
+                        {/* Objective */}
+                        <div className="space-y-2 group">
+                            <label className="text-[10px] text-cyan-300/70 font-bold uppercase tracking-wider group-hover:text-cyan-300 transition-colors">Objective</label>
+                            <div className="relative">
+                                <Target className="absolute left-3 top-3 w-4 h-4 text-cyan-600 z-10" />
+                                <select 
+                                    value={objective}
+                                    onChange={(e) => setObjective(e.target.value)}
+                                    className="w-full bg-slate-950/80 border border-slate-800 text-cyan-100 rounded-lg pl-10 pr-4 py-2.5 text-sm focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all appearance-none shadow-inner font-medium hover:border-cyan-700"
+                                >
+                                    {Object.entries(OBJECTIVES).map(([key, label]) => (
+                                        <option key={key} value={key}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+
+                        {/* Seed for the stochastic mappers and random placement */}
+                        <div className="space-y-2 group">
+                            <label className="text-[10px] text-cyan-300/70 font-bold uppercase tracking-wider group-hover:text-cyan-300 transition-colors">Seed · Runs</label>
+                            <div className="flex gap-2">
+                                <div className="relative flex-1">
+                                    <Dices className="absolute left-3 top-3 w-4 h-4 text-cyan-600 z-10" />
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={seed}
+                                        onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                                        className="w-full bg-slate-950/80 border border-slate-800 text-cyan-100 rounded-lg pl-10 pr-4 py-2.5 text-sm focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all shadow-inner font-mono hover:border-cyan-700"
+                                    />
+                                </div>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={20}
+                                    value={gaSeeds}
+                                    title="Runs of the genetic and annealing mappers (consecutive seeds)"
+                                    onChange={(e) => setGaSeeds(Math.min(20, Math.max(1, Math.floor(Number(e.target.value) || 1))))}
+                                    className="w-16 bg-slate-950/80 border border-slate-800 text-cyan-100 rounded-lg px-3 py-2.5 text-sm focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition-all shadow-inner font-mono hover:border-cyan-700"
+                                />
+                                <button
+                                    onClick={() => setSeed(randomSeed())}
+                                    title="New random seed"
+                                    className="px-3 rounded-lg border border-slate-800 bg-slate-950/80 text-cyan-400 hover:border-cyan-700 hover:text-cyan-200 transition-all"
+                                >
+                                    <RotateCcw className="w-4 h-4" />
+                                </button>
+                            </div>
                         </div>
 
                         <button
-                            onClick={runOptimization}
-                            disabled={running}
+                            onClick={running ? cancelOptimization : runOptimization}
                             className={`w-full relative group overflow-hidden rounded-xl py-4 text-sm font-black tracking-widest transition-all duration-300 ${
                                 running 
-                                ? 'bg-slate-800/50 text-slate-500 cursor-not-allowed border border-slate-700' 
+                                ? 'bg-rose-950/40 text-rose-300 border border-rose-500/50 hover:bg-rose-900/40' 
                                 : 'bg-gradient-to-r from-cyan-600 via-blue-600 to-cyan-600bg-[length:200%_auto] hover:bg-[position:right_center] text-white shadow-[0_0_20px_rgba(8,145,178,0.4)] border border-cyan-500/50'
                             }`}
                         >
                             <div className="flex items-center justify-center gap-3 relative z-10">
-                                {running ? 'PROCESSING...' : 'EXECUTE MAPPERS'}
+                                {running ? 'CANCEL' : 'EXECUTE MAPPERS'}
                             </div>
                         </button>
+
+                        {/* Progress of the mappers still running */}
+                        {running && (
+                          <div className="space-y-2">
+                            {Object.entries(progress).map(([mapper, { fraction, best }]) => (
+                              <div key={mapper} className="space-y-1">
+                                <div className="flex justify-between text-[10px] font-mono text-cyan-300/70">
+                                  <span>{mapper}</span>
+                                  <span>{best !== null ? `best ${best.toFixed(1)} · ` : ''}{Math.round(fraction * 100)}%</span>
+                                </div>
+                                <div className="h-1.5 rounded-full bg-slate-900 overflow-hidden">
+                                  <div className="h-full bg-cyan-500 transition-all" style={{ width: `${fraction * 100}%` }} />
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                         
                         {workerError && (
                           <div className="text-xs text-rose-400 bg-rose-950/30 p-2 rounded border border-rose-500/30">
@@ -626,12 +1467,19 @@ export default function QuantumCompiler3DUI() {
                 {currentResult ? (
                     <>
                         {/* HUD Metrics */}
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 animate-in fade-in zoom-in-95 duration-500">
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 animate-in fade-in zoom-in-95 duration-500">
                             <StatCard label="Added SWAPs" value={currentResult.insertedSwaps} color="text-rose-400" icon={Activity} />
                             <StatCard label="Depth" value={currentResult.depth} color="text-indigo-400" icon={Layers} />
                             <StatCard label="Dist Penalty" value={currentResult.distancePenalty} color="text-amber-400" icon={TrendingDown} />
+                            <StatCard label="Success Prob." value={`${(currentResult.esp * 100).toFixed(1)}%`} color="text-emerald-400" icon={Target} />
                             <StatCard label="Total Cost" value={currentResult.cost.toFixed(1)} color="text-cyan-300" icon={Zap} />
                         </div>
+                        {currentResult.validation && !currentResult.validation.valid && (
+                          <div className="text-xs text-rose-300 bg-rose-950/30 p-3 rounded-lg border border-rose-500/30 font-mono flex items-start gap-2">
+                            <AlertCircle className="w-4 h-4 shrink-0 text-rose-400" />
+                            <span>Invalid mapping — {currentResult.validation.issues[0]}{currentResult.validation.issues.length > 1 && ` (+${currentResult.validation.issues.length - 1} more)`}</span>
+                          </div>
+                        )}
 
                         {/* 3D Visualizer Container */}
                         <HoloCard className="p-0 overflow-hidden flex flex-col h-[500px] lg:h-auto lg:flex-grow border-cyan-500/30 shadow-[0_0_30px_rgba(8,145,178,0.2)]">
@@ -645,9 +1493,9 @@ export default function QuantumCompiler3DUI() {
                                             onChange={(e) => { setActiveMapper(e.target.value); setStep(0); setPlaying(false); }}
                                             className="bg-slate-900/90 border border-cyan-900/50 text-cyan-300 rounded-md pl-3 pr-8 py-1.5 text-xs font-bold uppercase tracking-wider focus:ring-1 focus:ring-cyan-500 outline-none appearance-none hover:border-cyan-500/50 transition-colors"
                                         >
-                                            <option value="greedy">Greedy</option>
-                                            <option value="lookahead">Look-Ahead</option>
-                                            <option value="genetic">Genetic</option>
+                                            {runSpecs(mapperRuns).map(spec => (
+                                              <option key={spec.id} value={spec.id}>{runLabel(spec)}</option>
+                                            ))}
                                         </select>
                                         <Activity className="absolute right-2 top-2 w-3 h-3 text-cyan-600 pointer-events-none" />
                                     </div>
@@ -684,6 +1532,9 @@ export default function QuantumCompiler3DUI() {
                                 <div className="absolute bottom-4 right-4 bg-slate-950/80 border border-cyan-900/50 p-3 rounded-xl backdrop-blur-md text-[10px] font-mono text-cyan-300/70 space-y-1.5 z-10 pointer-events-none">
                                     <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-[#22d3ee]"></span> Active Qubit</div>
                                     <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-[#fb7185]"></span> SWAP Operation</div>
+                                    {hardware?.calibration && (
+                                        <div className="flex items-center gap-2"><span className="w-6 h-1 rounded-full bg-gradient-to-r from-[#34d399] to-[#f43f5e]"></span> Coupler Error</div>
+                                    )}
                                 </div>
                             </div>
 
@@ -717,12 +1568,40 @@ export default function QuantumCompiler3DUI() {
             </div>
         </div>
 
+        {/* Mapper runs and their settings */}
+        <MapperSettingsPanel runs={mapperRuns} setRuns={setMapperRuns} store={presetStore} disabled={running} />
+
+        {/* Hyperparameter tuning for the genetic optimizer */}
+        <TuningPanel
+            store={presetStore}
+            objective={objective}
+            onSaved={() => setPresetVersion(v => v + 1)}
+            onUse={(config: any, preset: string) => setMapperRuns(runs => [...runs, { id: `genetic-tuned-${Date.now()}`, mapper: 'genetic', config, preset }])}
+        />
+
         {/* Comparison Table */}
         {results && (
             <HoloCard className="animate-in slide-in-from-bottom-8">
-                <h3 className="text-sm font-black text-cyan-300 uppercase tracking-[0.2em] mb-6 flex items-center gap-3">
-                    <BarChart3 className="w-5 h-5" /> Metric Analysis
-                </h3>
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+                    <h3 className="text-sm font-black text-cyan-300 uppercase tracking-[0.2em] flex items-center gap-3">
+                        <BarChart3 className="w-5 h-5" /> Metric Analysis
+                    </h3>
+                    <div className="flex items-center gap-4 text-[10px] font-bold uppercase tracking-wider text-cyan-300/70">
+                        <select
+                            value={exportFormat}
+                            onChange={(e) => setExportFormat(e.target.value)}
+                            className="bg-slate-900/90 border border-cyan-900/50 text-cyan-300 rounded-md px-3 py-1.5 text-xs font-bold uppercase tracking-wider focus:ring-1 focus:ring-cyan-500 outline-none hover:border-cyan-500/50 transition-colors"
+                        >
+                            {Object.entries(EXPORT_FORMATS).map(([key, format]) => (
+                                <option key={key} value={key}>{format.label}</option>
+                            ))}
+                        </select>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input type="checkbox" checked={expandSwaps} onChange={(e) => setExpandSwaps(e.target.checked)} className="accent-cyan-500" />
+                            Expand SWAPs to CX
+                        </label>
+                    </div>
+                </div>
                 <div className="overflow-x-auto rounded-lg border border-cyan-900/30">
                     <table className="w-full text-sm text-left border-collapse">
                         <thead className="bg-cyan-950/50 text-cyan-300/70 text-[10px] uppercase tracking-widest font-bold">
@@ -730,33 +1609,99 @@ export default function QuantumCompiler3DUI() {
                                 <th className="py-4 pl-6">Strategy</th>
                                 <th className="py-4 text-right">SWAPs</th>
                                 <th className="py-4 text-right">Depth</th>
+                                <th className="py-4 text-right">ESP</th>
                                 <th className="py-4 text-right">Cost</th>
-                                <th className="py-4 pr-6 text-right">Delta</th>
+                                <th className="py-4 text-right">Delta</th>
+                                <th className="py-4 text-right" title="Extra SWAPs over the minimum for the result's initial layout">Opt. Gap</th>
+                                <th className="py-4 text-right">Equiv.</th>
+                                <th className="py-4 pr-6 text-right">Export</th>
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-cyan-900/30 bg-slate-950/30">
                             {results.map((result, idx) => {
-                                const baselineCost = results[0].cost;
+                                // Invalid results are flagged, not ranked: the reference is the first valid one
+                                const isValid = result.validation?.valid !== false;
+                                const baseline = results.find(r => r.validation?.valid !== false);
+                                const baselineCost = baseline ? baseline.cost : 0;
                                 const improvementValue = baselineCost > 0 ? (baselineCost - result.cost) / baselineCost * 100 : 0;
-                                const isActive = getMapperName(activeMapper) === result.mapper;
+                                const isActive = result.runId === activeMapper;
 
                                 return (
                                     <tr 
                                         key={idx} 
-                                        className={`group transition-all duration-300 hover:bg-cyan-900/20 ${isActive ? 'bg-cyan-900/30' : ''}`}
-                                        onClick={() => { setActiveMapper(result.mapper === 'Greedy Baseline' ? 'greedy' : result.mapper === 'Look-Ahead (k=3)' ? 'lookahead' : 'genetic'); setStep(0); setPlaying(false); }}
+                                        className={`group transition-all duration-300 hover:bg-cyan-900/20 ${isActive ? 'bg-cyan-900/30' : ''} ${isValid ? '' : 'opacity-60'}`}
+                                        onClick={() => { setActiveMapper(result.runId); setStep(0); setPlaying(false); }}
                                         style={{cursor: 'pointer'}}
                                     >
                                         <td className="py-5 pl-6 font-bold flex items-center gap-3">
                                             {isActive && <ArrowRight className="w-4 h-4 text-cyan-500" />}
-                                            <span className={isActive ? 'text-cyan-200' : 'text-slate-300'}>{result.mapper}</span>
+                                            <span
+                                              className={isActive ? 'text-cyan-200' : 'text-slate-300'}
+                                              title={Object.entries(result.mapperConfig || {}).map(([key, value]) => `${key}: ${value}`).join('\n')}
+                                            >
+                                              {result.mapper}
+                                            </span>
+                                        </td>
+                                        <td className="py-5 text-right font-mono text-rose-300">
+                                            {result.insertedSwaps}
+                                            {result.restorationSwaps > 0 && (
+                                              <span className="text-[10px] text-slate-500" title="SWAPs appended to restore the initial layout"> +{result.restorationSwaps}</span>
+                                            )}
                                         </td>
-                                        <td className="py-5 text-right font-mono text-rose-300">{result.insertedSwaps}</td>
                                         <td className="py-5 text-right font-mono text-indigo-300">{result.depth}</td>
-                                        <td className="py-5 text-right font-mono font-black text-cyan-300">{result.cost.toFixed(1)}</td>
-                                        <td className="py-5 pr-6 text-right font-mono text-emerald-300">
-                                            {idx > 0 && `${improvementValue.toFixed(1)}%`}
-                                            {idx === 0 && <span className="text-slate-600">REF</span>}
+                                        <td className="py-5 text-right font-mono text-emerald-300">{(result.esp * 100).toFixed(1)}%</td>
+                                        <td className="py-5 text-right font-mono font-black text-cyan-300">
+                                            {isValid ? result.cost.toFixed(1) : <span className="text-slate-600">—</span>}
+                                            {result.seedStats && result.seedStats.seeds.length > 1 && (
+                                              <div className="text-[10px] font-medium text-slate-500" title={`Seed ${result.seed} of ${result.seedStats.seeds.join(', ')}\nmin ${result.seedStats.min.toFixed(1)} · max ${result.seedStats.max.toFixed(1)}`}>
+                                                {result.seedStats.mean.toFixed(1)} ± {result.seedStats.std.toFixed(1)} over {result.seedStats.seeds.length} seeds
+                                              </div>
+                                            )}
+                                        </td>
+                                        <td className="py-5 text-right font-mono text-emerald-300">
+                                            {!isValid && (
+                                              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border border-rose-500/50 bg-rose-950/50 text-rose-300 text-[10px] font-bold uppercase tracking-wider" title={result.validation.issues.join('\n')}>
+                                                <AlertCircle className="w-3 h-3" /> Invalid
+                                              </span>
+                                            )}
+                                            {isValid && result !== baseline && `${improvementValue.toFixed(1)}%`}
+                                            {isValid && result === baseline && <span className="text-slate-600">REF</span>}
+                                        </td>
+                                        <td className="py-5 text-right font-mono text-amber-300">
+                                            {(!isValid || !result.optimalityGap) && <span className="text-slate-600">—</span>}
+                                            {isValid && result.optimalityGap && (
+                                              <span title={result.optimalityGap.optimal
+                                                ? `Minimum ${result.optimalityGap.bound} SWAPs from this initial layout`
+                                                : `Search budget exhausted: at least ${result.optimalityGap.bound} SWAPs are needed, so the gap is at most this`}>
+                                                {result.optimalityGap.optimal && result.optimalityGap.gap === 0
+                                                  ? <span className="text-emerald-300">OPTIMAL</span>
+                                                  : `${result.optimalityGap.optimal ? '' : '≤ '}+${result.optimalityGap.gap}`}
+                                              </span>
+                                            )}
+                                        </td>
+                                        <td className="py-5 text-right">
+                                            {result.equivalence?.status === 'pass' && (
+                                              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border border-emerald-500/50 bg-emerald-950/50 text-emerald-300 text-[10px] font-bold uppercase tracking-wider" title={`Fidelity ${result.equivalence.fidelity.toFixed(9)}`}>
+                                                <CheckCircle2 className="w-3 h-3" /> Pass
+                                              </span>
+                                            )}
+                                            {result.equivalence?.status === 'fail' && (
+                                              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border border-rose-500/50 bg-rose-950/50 text-rose-300 text-[10px] font-bold uppercase tracking-wider" title={`Fidelity ${result.equivalence.fidelity.toFixed(9)}`}>
+                                                <AlertCircle className="w-3 h-3" /> Fail
+                                              </span>
+                                            )}
+                                            {result.equivalence?.status === 'skipped' && (
+                                              <span className="text-slate-600 text-[10px] font-bold uppercase tracking-wider" title={result.equivalence.reason}>n/a</span>
+                                            )}
+                                        </td>
+                                        <td className="py-5 pr-6 text-right">
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); downloadResult(result); }}
+                                                className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md border border-cyan-900/50 text-cyan-400 text-[10px] font-bold uppercase tracking-wider hover:bg-cyan-950/50 hover:border-cyan-500/50 transition-colors"
+                                                title={`Download as ${EXPORT_FORMATS[exportFormat].label}`}
+                                            >
+                                                <Download className="w-3 h-3" /> Download
+                                            </button>
                                         </td>
                                     </tr>
                                 );
@@ -766,6 +1711,32 @@ export default function QuantumCompiler3DUI() {
                 </div>
             </HoloCard>
         )}
+
+        {/* Annealing convergence */}
+        {annealingResult && (
+            <HoloCard className="animate-in slide-in-from-bottom-8">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+                    <h3 className="text-sm font-black text-cyan-300 uppercase tracking-[0.2em] flex items-center gap-3">
+                        <TrendingDown className="w-5 h-5" /> Annealing Convergence
+                    </h3>
+                    <span className="text-[10px] font-mono text-slate-500">
+                        seed {annealingResult.seed} · {annealingResult.convergence.accepted} / {annealingResult.convergence.iterations} moves accepted
+                    </span>
+                </div>
+                <ScalingChart
+                    series={[
+                        { name: 'Current energy', points: annealingResult.convergence.trace.map((t: any) => ({ x: t.iteration, y: t.energy })) },
+                        { name: 'Best energy', points: annealingResult.convergence.trace.map((t: any) => ({ x: t.iteration, y: t.best })) }
+                    ]}
+                    xLabel="Iteration"
+                    yLabel="Cost"
+                    showPoints={false}
+                />
+            </HoloCard>
+        )}
+
+        {/* Benchmark Sweep */}
+        <SweepPanel placement={placement} objective={objective} />
             </div>
             <style>{`.no-scrollbar::-webkit-scrollbar { display: none; } .no-scrollbar { -ms-overflow-style: none; scrollbar-width: none; }`}</style>
     </div>
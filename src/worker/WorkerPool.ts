@@ -0,0 +1,112 @@
+// Raised for every queued or running job when the pool is cancelled
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+  }
+}
+
+// Runs jobs (see jobs.ts) on up to `size` workers, one job per worker at a
+// time; results resolve in completion order. `spawn(onMessage, onError)`
+// starts a worker and returns { post(message), terminate() }, so the same
+// pool drives browser Web Workers and Node worker_threads. Workers start on
+// demand and stay alive for later jobs.
+export class WorkerPool {
+  spawn: (onMessage: (message: any) => void, onError: (error: Error) => void) => any;
+  size: number;
+  workers: any[];
+  queue: any[];
+  nextId: number;
+
+  constructor(spawn: (onMessage: (message: any) => void, onError: (error: Error) => void) => any, size: number) {
+    this.spawn = spawn;
+    this.size = Math.max(1, size || 1);
+    this.workers = [];
+    this.queue = [];
+    this.nextId = 0;
+  }
+
+  // Resolves with the job's result; onProgress receives its progress messages
+  run(job: any, onProgress?: (message: any) => void) {
+    return new Promise<any>((resolve, reject) => {
+      this.queue.push({ id: ++this.nextId, job, onProgress, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  dispatch() {
+    while (this.queue.length > 0) {
+      let entry = this.workers.find(w => !w.task);
+      if (!entry) {
+        if (this.workers.length >= this.size) return;
+        entry = this.startWorker();
+      }
+      entry.task = this.queue.shift();
+      entry.worker.post({ ...entry.task.job, id: entry.task.id });
+    }
+  }
+
+  startWorker() {
+    const entry: any = { worker: null, task: null };
+    entry.worker = this.spawn(message => this.receive(entry, message), error => this.fail(entry, error));
+    this.workers.push(entry);
+    return entry;
+  }
+
+  receive(entry: any, message: any) {
+    const { task } = entry;
+    if (!task || message.id !== task.id) return;
+    if (message.type === 'progress') {
+      if (task.onProgress) task.onProgress(message);
+      return;
+    }
+    entry.task = null;
+    if (message.type === 'done') task.resolve(message.result);
+    else task.reject(new Error(message.error));
+    this.dispatch();
+  }
+
+  // A crashed worker is dropped along with its job; the next job starts a new one
+  fail(entry: any, error: Error) {
+    entry.worker.terminate();
+    this.workers = this.workers.filter(w => w !== entry);
+    if (entry.task) entry.task.reject(error);
+    this.dispatch();
+  }
+
+  // Asks the running jobs to stop early (see 'cancel' in jobs.ts); jobs that
+  // honour it resolve with their partial result, the rest run to the end.
+  // Queued jobs are rejected with JobCancelledError
+  stop() {
+    const queued = this.queue;
+    this.queue = [];
+    this.workers.forEach(w => { if (w.task) w.worker.post({ id: w.task.id, type: 'cancel' }); });
+    queued.forEach(task => task.reject(new JobCancelledError()));
+  }
+
+  // Terminates every worker and rejects all pending jobs with JobCancelledError;
+  // the pool stays usable
+  cancel() {
+    const tasks = [...this.queue, ...this.workers.map(w => w.task).filter(Boolean)];
+    this.workers.forEach(w => w.worker.terminate());
+    this.workers = [];
+    this.queue = [];
+    tasks.forEach(task => task.reject(new JobCancelledError()));
+  }
+
+  terminate() {
+    this.cancel();
+  }
+}
+
+// One Web Worker per core running mapperWorker.ts
+export function createBrowserPool(size = navigator.hardwareConcurrency || 4) {
+  return new WorkerPool((onMessage, onError) => {
+    const worker = new Worker(new URL('./mapperWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (ev: MessageEvent) => onMessage(ev.data);
+    worker.onerror = (ev: ErrorEvent) => {
+      ev.preventDefault();
+      onError(new Error(ev.message || 'Mapper worker failed'));
+    };
+    return { post: (message: any) => worker.postMessage(message), terminate: () => worker.terminate() };
+  }, size);
+}
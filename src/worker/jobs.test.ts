@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BENCHMARKS } from '../../compiler/Benchmarks';
+import { HardwareTopology } from '../../hardware/Topology';
+import { MapperComparison } from '../../metrics/MapperComparison';
+import { handleJob, gapsJob } from './jobs';
+
+test('gaps job matches measureGaps and skips invalid rows', () => {
+  const circuit = BENCHMARKS.qft(5);
+  const hardware = HardwareTopology.forQubits('lnn', 5);
+  const comparison = new MapperComparison(circuit, hardware, { mappers: ['greedy', 'exact'] });
+  const rows = ['greedy', 'exact'].map(id => comparison.runMapper(id));
+  rows.push({ ...rows[0], validation: { valid: false, issues: ['broken'] } });
+
+  const replies: any[] = [];
+  handleJob({ id: 1, ...gapsJob(rows, circuit, hardware) }, message => replies.push(message));
+  assert.equal(replies.length, 1);
+  assert.equal(replies[0].type, 'done');
+  assert.deepEqual(replies[0].result, comparison.measureGaps(rows).map(row => row.optimalityGap));
+  assert.equal(replies[0].result[2], null);
+  assert.equal(replies[0].result[1].gap, 0);
+});
+
+test('a cancelled tune job still replies with its partial report', async () => {
+  const replies: any[] = [];
+  const config = { benchmarks: ['qft'], sizes: [4], topologies: ['lnn'], candidates: 4, budgetMs: 60000 };
+  const job = handleJob({ id: 7, type: 'tune', config }, message => {
+    replies.push(message);
+    if (message.type === 'progress' && message.fraction > 0) handleJob({ id: 7, type: 'cancel' }, () => {});
+  });
+  await job;
+  const done = replies.find(message => message.type === 'done');
+  assert.ok(done, JSON.stringify(replies.find(message => message.type === 'error')));
+  assert.equal(done.result.completed, false);
+  assert.equal(done.result.stopped, true);
+  assert.ok(done.result.candidates.length > 0);
+});
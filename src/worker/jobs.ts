@@ -0,0 +1,112 @@
+import { QuantumCircuit } from '../../compiler/QuantumCircuit';
+import { parseQasm } from '../../compiler/QasmParser';
+import { HardwareTopology } from '../../hardware/Topology';
+import { Calibration } from '../../hardware/Calibration';
+import { MapperComparison } from '../../metrics/MapperComparison';
+import { BenchmarkSweep } from '../../metrics/BenchmarkSweep';
+import { HyperparameterTuner } from '../../metrics/HyperparameterTuner';
+
+// Jobs run by pool workers (browser Web Workers and Node worker_threads alike).
+//   in:  { id, type: 'mapper', mapper, circuitData, hardwareData, config }
+//        { id, type: 'sweep', config, run }
+//        { id, type: 'tune', config }
+//        { id, type: 'cancel' } stops the tune job `id` early; it still replies 'done'
+//        { id, type: 'gaps', rows, circuitData, hardwareData } -> each row's optimalityGap
+//   out: { id, type: 'progress', fraction, best }
+//        { id, type: 'done', result } | { id, type: 'error', error }
+// Progress is throttled to one message every PROGRESS_INTERVAL_MS.
+const PROGRESS_INTERVAL_MS = 50;
+
+// Abort controllers of the running jobs that accept 'cancel', by job id
+const running = new Map<number, AbortController>();
+
+export function buildCircuit(circuitData: any) {
+  // Rebuild instances inside worker (either from raw gates or OpenQASM source)
+  if (typeof circuitData.qasm === 'string') return parseQasm(circuitData.qasm);
+  const circ = new QuantumCircuit(circuitData.nQubits);
+  circ.gates = circuitData.gates;
+  return circ;
+}
+
+export function buildHardware(hardwareData: any) {
+  const hw = hardwareData.couplingMap
+    ? HardwareTopology.fromCouplingMap(hardwareData.couplingMap)
+    : new HardwareTopology(hardwareData.type, hardwareData.params);
+  if (hardwareData.calibration) hw.setCalibration(Calibration.fromJSON(hardwareData.calibration));
+  hw.setErrorAware(!!hardwareData.errorAware);
+  return hw;
+}
+
+// Plain data a worker needs to rebuild the topology
+export function hardwareData(hardware: any) {
+  return {
+    ...(hardware.type === 'custom' ? { couplingMap: hardware.toCouplingMap() } : { type: hardware.type, params: hardware.params }),
+    calibration: hardware.calibration ? hardware.calibration.toJSON() : null,
+    errorAware: hardware.errorAware
+  };
+}
+
+// Job routing `circuit` on `hardware` with one mapper id or run; config and
+// runs as for MapperComparison
+export function mapperJob(mapper: any, circuit: any, hardware: any, config: any) {
+  return {
+    type: 'mapper',
+    mapper,
+    circuitData: { nQubits: circuit.nQubits, gates: circuit.gates },
+    hardwareData: hardwareData(hardware),
+    config
+  };
+}
+
+// Job measuring the optimality gaps of finished mapper rows (see
+// MapperComparison.measureGaps); rows are cut down to the fields it reads
+export function gapsJob(rows: any[], circuit: any, hardware: any) {
+  return {
+    type: 'gaps',
+    rows: rows.map(({ initialLayout, insertedSwaps, lowerBound, optimal, validation }) => ({
+      initialLayout, insertedSwaps, lowerBound, optimal, validation: { valid: validation.valid }
+    })),
+    circuitData: { nQubits: circuit.nQubits, gates: circuit.gates },
+    hardwareData: hardwareData(hardware)
+  };
+}
+
+export async function handleJob(job: any, post: (message: any) => void) {
+  const { id } = job;
+  if (job.type === 'cancel') {
+    running.get(id)?.abort();
+    return;
+  }
+  let lastSent = 0;
+  const onProgress = (fraction: number, best: number | null) => {
+    const now = Date.now();
+    if (fraction > 0 && fraction < 1 && now - lastSent < PROGRESS_INTERVAL_MS) return;
+    lastSent = now;
+    post({ id, type: 'progress', fraction, best });
+  };
+
+  try {
+    if (job.type === 'mapper') {
+      const comparison = new MapperComparison(buildCircuit(job.circuitData), buildHardware(job.hardwareData), job.config || {});
+      post({ id, type: 'done', result: comparison.runMapper(job.mapper, onProgress) });
+    } else if (job.type === 'gaps') {
+      const comparison = new MapperComparison(buildCircuit(job.circuitData), buildHardware(job.hardwareData));
+      post({ id, type: 'done', result: comparison.measureGaps(job.rows).map(row => row.optimalityGap) });
+    } else if (job.type === 'sweep') {
+      post({ id, type: 'done', result: new BenchmarkSweep(job.config).runOne(job.run) });
+    } else if (job.type === 'tune') {
+      const controller = new AbortController();
+      running.set(id, controller);
+      try {
+        const result = await new HyperparameterTuner(job.config).run((done, total, best) => onProgress(done / total, best), controller.signal);
+        post({ id, type: 'done', result });
+      } finally {
+        running.delete(id);
+      }
+    } else {
+      throw new Error(`Unknown job type '${job.type}'`);
+    }
+  } catch (err) {
+    post({ id, type: 'error', error: String((err as any)?.message || err) });
+  }
+}
@@ -37,8 +37,27 @@ export default function QubitVisualizer({ currentResult, step, hardware, topolog
 
     const layout = currentStep.layout || [];
     const nQ = layout.length || 0;
-    const positions = layout.map((_, i) => {
-      if (topologyType === 'star') {
+    const type = topologyType || hardware.type;
+
+    // Topologies beyond lnn/grid/star are drawn from the device's own coordinates
+    let coordPositions: { x: number; y: number }[] | null = null;
+    if (!['lnn', 'grid2d', 'star'].includes(type) && hardware.layoutPositions) {
+      const coords = hardware.layoutPositions();
+      const xs = coords.map((c: any) => c.x);
+      const ys = coords.map((c: any) => c.y);
+      const spanX = Math.max(...xs) - Math.min(...xs) || 1;
+      const spanY = Math.max(...ys) - Math.min(...ys) || 1;
+      const scale = Math.min((w - 100) / spanX, (h - 100) / spanY, 100);
+      const offsetX = (w - spanX * scale) / 2;
+      const offsetY = (h - spanY * scale) / 2;
+      coordPositions = coords.map((c: any) => ({
+        x: offsetX + (c.x - Math.min(...xs)) * scale,
+        y: offsetY + (c.y - Math.min(...ys)) * scale
+      }));
+    }
+
+    const positions = coordPositions || layout.map((_, i) => {
+      if (type === 'star') {
         if (i === 0) return { x: w / 2, y: h / 2 };
         const angle = (2 * Math.PI * i) / Math.max(1, nQ);
         return { x: w / 2 + 120 * Math.cos(angle), y: h / 2 + 120 * Math.sin(angle) };
@@ -0,0 +1,72 @@
+import React from 'react';
+
+const COLORS = ['#22d3ee', '#f472b6', '#a78bfa', '#34d399', '#fbbf24', '#f87171', '#60a5fa', '#e879f9'];
+
+// Line chart of { name, points: [{ x, y }] } series, e.g. SWAPs vs qubit count per
+// mapper. Dense series (e.g. convergence traces) can hide their point markers.
+export default function ScalingChart({ series, xLabel = 'Qubits', yLabel = '', width = 640, height = 280, showPoints = true }: any) {
+  const points = series.flatMap((s: any) => s.points);
+  if (points.length === 0) {
+    return <div className="text-xs text-slate-500 font-mono">No data yet.</div>;
+  }
+
+  const pad = { left: 52, right: 16, top: 16, bottom: 40 };
+  const xs = points.map((p: any) => p.x);
+  const ys = points.map((p: any) => p.y);
+  const xMin = Math.min(...xs);
+  const xMax = Math.max(...xs);
+  const yMax = Math.max(...ys, 1);
+  const sx = (x: number) => pad.left + (xMax === xMin ? 0.5 : (x - xMin) / (xMax - xMin)) * (width - pad.left - pad.right);
+  const sy = (y: number) => height - pad.bottom - (y / yMax) * (height - pad.top - pad.bottom);
+
+  const xValues = [...new Set<number>(xs)].sort((a, b) => a - b);
+  const tickStep = Math.ceil(xValues.length / 10);
+  const xTicks = xValues.filter((_, i) => i % tickStep === 0 || i === xValues.length - 1);
+  const yTicks = [0, 0.25, 0.5, 0.75, 1].map(f => f * yMax);
+  const fmt = (v: number) => (Math.abs(v) >= 100 || Number.isInteger(v) ? v.toFixed(0) : v.toFixed(1));
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto font-mono">
+        {yTicks.map(t => (
+          <g key={`y${t}`}>
+            <line x1={pad.left} x2={width - pad.right} y1={sy(t)} y2={sy(t)} stroke="#164e63" strokeOpacity={0.5} strokeDasharray="3 4" />
+            <text x={pad.left - 8} y={sy(t) + 3} textAnchor="end" fontSize={10} fill="#67e8f9" fillOpacity={0.6}>{fmt(t)}</text>
+          </g>
+        ))}
+        {xTicks.map(t => (
+          <text key={`x${t}`} x={sx(t)} y={height - pad.bottom + 16} textAnchor="middle" fontSize={10} fill="#67e8f9" fillOpacity={0.6}>{t}</text>
+        ))}
+        <text x={(width + pad.left) / 2} y={height - 6} textAnchor="middle" fontSize={10} fill="#67e8f9" fillOpacity={0.8}>{xLabel}</text>
+        <text x={12} y={(height - pad.bottom) / 2} textAnchor="middle" fontSize={10} fill="#67e8f9" fillOpacity={0.8} transform={`rotate(-90 12 ${(height - pad.bottom) / 2})`}>{yLabel}</text>
+
+        {series.map((s: any, i: number) => {
+          const color = COLORS[i % COLORS.length];
+          return (
+            <g key={s.name}>
+              <polyline
+                points={s.points.map((p: any) => `${sx(p.x)},${sy(p.y)}`).join(' ')}
+                fill="none"
+                stroke={color}
+                strokeWidth={2}
+              />
+              {showPoints && s.points.map((p: any) => (
+                <circle key={p.x} cx={sx(p.x)} cy={sy(p.y)} r={3} fill={color}>
+                  <title>{`${s.name}: ${fmt(p.y)} at ${xLabel.toLowerCase()} ${p.x}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+        {series.map((s: any, i: number) => (
+          <span key={s.name} className="flex items-center gap-2">
+            <span className="w-3 h-0.5" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+            {s.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}